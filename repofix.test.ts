@@ -0,0 +1,797 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { analyze, applyFixes } from './repofix';
+import type { Config, ImportIssue } from './repofix';
+
+// Each test runs in a fresh project: `src/` with an `@/*` alias, plus whatever files it adds
+let root: string;
+const originalCwd = process.cwd();
+
+function writeFiles(files: { [path: string]: string }) {
+    for (const [path, text] of Object.entries(files)) {
+        mkdirSync(dirname(join(root, path)), { recursive: true });
+        writeFileSync(join(root, path), text);
+    }
+}
+
+function readSource(path: string): string {
+    return readFileSync(join(root, path), 'utf-8');
+}
+
+function createConfig(overrides: Partial<Config> = {}): Config {
+    return {
+        directories: [
+            {
+                path: join(root, 'src'),
+                tsconfig: join(root, 'tsconfig.json'),
+                report: join(root, 'r.json'),
+                aliases: { '@': { path: join(root, 'src'), description: 'Source root' } },
+            },
+        ],
+        aliases: {},
+        specialCases: {},
+        ...overrides,
+    };
+}
+
+// Runs the CLI in the fixture with `config` saved as its repofix.config.json
+function runCli(args: string[], config: Config = createConfig()): { status: number | null; output: string } {
+    writeFiles({ 'repofix.config.json': JSON.stringify(config) });
+    const result = spawnSync(
+        join(__dirname, 'node_modules', '.bin', 'ts-node'),
+        ['--transpile-only', join(__dirname, 'repofix.ts'), ...args],
+        { cwd: root, encoding: 'utf-8', env: { ...process.env, FORCE_COLOR: '0' } },
+    );
+    return { status: result.status, output: result.stdout + result.stderr };
+}
+
+function rulesOf(issues: ImportIssue[]): string[] {
+    return issues.map((issue) => issue.rule).sort();
+}
+
+beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'repofix-')));
+    writeFiles({
+        'tsconfig.json': JSON.stringify({
+            compilerOptions: { strict: true, moduleResolution: 'node', baseUrl: '.', paths: { '@/*': ['src/*'] } },
+            include: ['src'],
+        }),
+        'package.json': JSON.stringify({ name: 'fixture' }),
+    });
+    process.chdir(root);
+});
+
+afterEach(() => {
+    process.chdir(originalCwd);
+    rmSync(root, { recursive: true, force: true });
+});
+
+describe('fix verification', () => {
+    beforeEach(() => {
+        writeFiles({
+            'node_modules/legacy/package.json': JSON.stringify({ name: 'legacy', types: 'index.d.ts' }),
+            'node_modules/legacy/index.d.ts': 'export declare const y: number;\n',
+            'src/util.ts': 'export const x = 1;\n',
+        });
+    });
+
+    it('rolls back a fix that introduces a type error', async () => {
+        const source = "import { y } from 'legacy';\nconsole.log(y);\n";
+        writeFiles({ 'src/main.ts': source });
+        const config = createConfig({ specialCases: { legacy: { action: 'rename', value: '@/nowhere' } } });
+
+        const result = await applyFixes(await analyze({ config }), () => true, { config });
+
+        const issue = result.issues.find((issue) => issue.rule === 'special-case')!;
+        expect(issue.fixed).toBeFalsy();
+        expect(issue.userChoice).toBe('Reverted: introduced TS2307');
+        expect(readSource('src/main.ts')).toBe(source);
+    });
+
+    it('keeps fixes whose files only have the same errors as before', async () => {
+        writeFiles({ 'src/app/main.ts': "import { x, missing } from '../util';\nconsole.log(x, missing);\n" });
+        const config = createConfig();
+
+        const result = await applyFixes(await analyze({ config }), (issue) => issue.rule === 'alias-preference', {
+            config,
+        });
+
+        expect(result.fixedIssues).toBe(1);
+        expect(readSource('src/app/main.ts')).toContain("from '@/util'");
+    });
+
+    it('saves fixes without checking them when verification is off', async () => {
+        writeFiles({ 'src/main.ts': "import { y } from 'legacy';\nconsole.log(y);\n" });
+        const config = createConfig({ specialCases: { legacy: { action: 'rename', value: '@/nowhere' } } });
+
+        const result = await applyFixes(await analyze({ config }), () => true, { config, verify: false });
+
+        expect(result.fixedIssues).toBe(1);
+        expect(readSource('src/main.ts')).toContain("from '@/nowhere'");
+    });
+});
+
+describe('analysis cache', () => {
+    beforeEach(() => {
+        writeFiles({
+            'src/util.ts': 'export const x = 1;\n',
+            'src/app/main.ts': "import { x } from '../util';\nconsole.log(x);\n",
+        });
+    });
+
+    it('reuses results while nothing changes', async () => {
+        const config = createConfig();
+        const first = await analyze({ config, cache: true });
+        const second = await analyze({ config, cache: true });
+
+        expect(existsSync(join(root, '.repofix', 'cache'))).toBe(true);
+        expect(rulesOf(second.issues)).toEqual(rulesOf(first.issues));
+        expect(rulesOf(first.issues)).toEqual(['alias-preference']);
+    });
+
+    it('is invalidated by a change of the import style', async () => {
+        await analyze({ config: createConfig(), cache: true });
+        const report = await analyze({ config: createConfig({ style: { preferAlias: 'never' } }), cache: true });
+
+        expect(report.issues).toEqual([]);
+    });
+
+    it('is invalidated by installing a package', async () => {
+        writeFiles({ 'src/uses-lib.ts': "import { y } from 'lib';\nconsole.log(y);\n" });
+        const config = createConfig();
+        const before = await analyze({ config, cache: true });
+        expect(before.issues.some((issue) => issue.importPath === 'lib')).toBe(true);
+
+        writeFiles({
+            'package.json': JSON.stringify({ name: 'fixture', dependencies: { lib: '^1.0.0' } }),
+            'node_modules/lib/package.json': JSON.stringify({ name: 'lib', version: '1.0.0', types: 'index.d.ts' }),
+            'node_modules/lib/index.d.ts': 'export declare const y: number;\n',
+        });
+        const after = await analyze({ config, cache: true });
+
+        expect(after.issues.some((issue) => issue.importPath === 'lib')).toBe(false);
+    });
+});
+
+describe('organizing imports', () => {
+    const config = () => createConfig({ style: { importGroups: ['builtin', 'external', 'alias', 'relative'] } });
+
+    beforeEach(() => {
+        writeFiles({ 'src/lib/a.ts': 'export const run = () => 1;\nexport interface Opts { x: number }\n' });
+    });
+
+    it('sorts and groups imports, keeping comments with their import', async () => {
+        writeFiles({
+            'src/main.ts': [
+                '// header comment',
+                "import { run } from '@/lib/a'; // runner",
+                "import { readFileSync } from 'fs'; /* fs */",
+                '// about path',
+                "import path from 'path';",
+                '',
+                'console.log(run, readFileSync, path.join);',
+                '',
+            ].join('\n'),
+        });
+
+        await applyFixes(await analyze({ config: config() }), (issue) => issue.rule === 'import-order', {
+            config: config(),
+        });
+
+        expect(readSource('src/main.ts')).toBe(
+            [
+                '// header comment',
+                "import { readFileSync } from 'fs'; /* fs */",
+                '// about path',
+                "import path from 'path';",
+                '',
+                "import { run } from '@/lib/a'; // runner",
+                '',
+                'console.log(run, readFileSync, path.join);',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('does not merge away an import that has its own comment', async () => {
+        writeFiles({
+            'src/main.ts': [
+                "import { run } from '@/lib/a';",
+                "import type { Opts } from '@/lib/a';",
+                "import { run as again } from '@/lib/a'; // kept",
+                '',
+                'const o: Opts = { x: run() + again() };',
+                'console.log(o);',
+                '',
+            ].join('\n'),
+        });
+
+        await applyFixes(await analyze({ config: config() }), () => true, { config: config() });
+
+        expect(readSource('src/main.ts')).toContain("import { run as again } from '@/lib/a'; // kept");
+    });
+
+    it('leaves side-effect imports in place', async () => {
+        writeFiles({
+            'src/polyfill.ts': 'export {};\n',
+            'src/main.ts': [
+                "import { run } from '@/lib/a';",
+                "import '@/polyfill';",
+                "import { readFileSync } from 'fs';",
+                '',
+                'console.log(run, readFileSync);',
+                '',
+            ].join('\n'),
+        });
+
+        const report = await analyze({ config: config() });
+
+        expect(report.issues.filter((issue) => issue.rule === 'import-order')).toEqual([]);
+    });
+});
+
+describe('import binding rewrites', () => {
+    const config = (imports: { [name: string]: string }) =>
+        createConfig({ specialCases: { 'old-client': { action: 'replace-method', value: 'new-client', imports } } });
+
+    beforeEach(() => {
+        writeFiles({
+            'node_modules/old-client/package.json': JSON.stringify({ name: 'old-client', types: 'index.d.ts' }),
+            'node_modules/old-client/index.d.ts': [
+                'export declare function createClient(...args: unknown[]): number;',
+                'declare const client: { url: string };',
+                'export default client;',
+                '',
+            ].join('\n'),
+            'node_modules/new-client/package.json': JSON.stringify({ name: 'new-client', types: 'index.d.ts' }),
+            'node_modules/new-client/index.d.ts': [
+                'export declare function useUser(...args: unknown[]): number;',
+                'export declare const url: string;',
+                '',
+            ].join('\n'),
+        });
+    });
+
+    async function fix(source: string, imports: { [name: string]: string }): Promise<string> {
+        writeFiles({ 'src/main.ts': source });
+        await applyFixes(await analyze({ config: config(imports) }), (issue) => issue.rule === 'special-case', {
+            config: config(imports),
+        });
+        return readSource('src/main.ts');
+    }
+
+    it('renames the import and every reference to it', async () => {
+        const source = "import { createClient } from 'old-client';\nexport const a = createClient({ createClient });\n";
+
+        expect(await fix(source, { createClient: 'useUser' })).toBe(
+            "import { useUser } from 'new-client';\nexport const a = useUser({ createClient: useUser });\n",
+        );
+    });
+
+    it('keeps the local name when the new name is already taken', async () => {
+        const source = [
+            "import { createClient } from 'old-client';",
+            'const useUser = 5;',
+            'export const a = createClient(useUser);',
+            '',
+        ].join('\n');
+
+        expect(await fix(source, { createClient: 'useUser' })).toBe(
+            [
+                "import { useUser as createClient } from 'new-client';",
+                'const useUser = 5;',
+                'export const a = createClient(useUser);',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('turns a default import into a namespace import', async () => {
+        const source = "import client from 'old-client';\nexport const a = client.url;\n";
+
+        expect(await fix(source, { default: '*' })).toBe(
+            "import * as client from 'new-client';\nexport const a = client.url;\n",
+        );
+    });
+});
+
+describe('dry runs and patches', () => {
+    const source = "import { x } from '../util';\nconsole.log(x);\n";
+
+    beforeEach(() => {
+        writeFiles({ 'src/util.ts': 'export const x = 1;\n', 'src/app/main.ts': source });
+    });
+
+    it('returns fixes as git patches without touching the files', async () => {
+        const config = createConfig();
+        const result = await applyFixes(await analyze({ config }), () => true, { config, dryRun: true });
+
+        expect(result.patches).toHaveLength(1);
+        expect(result.patches[0]).toMatch(/^diff --git a\/src\/app\/main\.ts b\/src\/app\/main\.ts\n/);
+        expect(result.patches[0]).toContain("-import { x } from '../util';\n+import { x } from '@/util';");
+        expect(readSource('src/app/main.ts')).toBe(source);
+    });
+
+    it('writes a patch file that git can apply', () => {
+        const { status, output } = runCli(['fix', '--patch', 'fixes.patch', '--no-cache']);
+
+        expect(status).toBe(0);
+        expect(output).toContain('Patch for 1 file(s) written to fixes.patch');
+        expect(readSource('src/app/main.ts')).toBe(source);
+        const apply = spawnSync('git', ['apply', 'fixes.patch'], { cwd: root, encoding: 'utf-8' });
+        expect(apply.stderr).toBe('');
+        expect(readSource('src/app/main.ts')).toBe("import { x } from '@/util';\nconsole.log(x);\n");
+    });
+});
+
+describe('init', () => {
+    it('reports an unreadable seed file instead of crashing', () => {
+        writeFiles({ 'seed.json': '{ "include": [' });
+
+        const { status, output } = runCli(['init', '--yes', '--seed', 'seed.json']);
+
+        expect(status).toBe(1);
+        expect(output).toContain('Could not read the --seed file seed.json: ');
+        expect(output).not.toContain('    at ');
+    });
+});
+
+describe('ci mode', () => {
+    beforeEach(() => {
+        writeFiles({
+            'src/util.ts': 'export const x = 1;\n',
+            'src/app/main.ts': "import { x } from '../util';\nconsole.log(x);\n",
+        });
+    });
+
+    it('fails only on issues at or above the threshold', () => {
+        expect(runCli(['check', '--ci', '--no-cache']).status).toBe(0);
+
+        const { status, output } = runCli(['check', '--ci', '--no-cache', '--fail-on', 'warning']);
+
+        expect(status).toBe(1);
+        expect(output).toContain("CI check failed: 1 new issue(s) at or above 'warning'");
+    });
+
+    it('uses the configured severities', () => {
+        const config = createConfig({ severities: { 'alias-preference': 'error' } });
+
+        expect(runCli(['check', '--ci', '--no-cache'], config).status).toBe(1);
+        expect(runCli(['check', '--ci', '--no-cache'], { ...config, failOn: 'warning' }).status).toBe(1);
+        expect(runCli(['check', '--ci', '--no-cache'], { ...config, severities: {} }).status).toBe(0);
+    });
+
+    it('passes on issues recorded in the baseline', () => {
+        const update = runCli(['check', '--update-baseline', '--baseline', 'base.json', '--no-cache']);
+        expect(update.output).toContain('Baseline with 1 issue(s) written to base.json');
+
+        const { status, output } = runCli([
+            'check',
+            '--ci',
+            '--no-cache',
+            '--fail-on',
+            'info',
+            '--baseline',
+            'base.json',
+        ]);
+
+        expect(status).toBe(0);
+        expect(output).toContain('(1 in baseline)');
+    });
+
+    it('rejects an unknown --fail-on severity', () => {
+        const { status, output } = runCli(['check', '--ci', '--fail-on', 'warn']);
+
+        expect(status).toBe(1);
+        expect(output).toContain('Invalid --fail-on "warn". Expected one of: info, warning, error');
+    });
+
+    it('rejects an unknown failOn in the config', async () => {
+        const config = { ...createConfig(), failOn: 'warn' } as unknown as Config;
+
+        await expect(analyze({ config })).rejects.toThrow('Invalid failOn "warn"');
+        const { status, output } = runCli(['check', '--ci'], config);
+        expect(status).toBe(1);
+        expect(output).toContain('Invalid failOn "warn" in the config. Expected one of: info, warning, error');
+    });
+});
+
+describe('report formats', () => {
+    // `packages/ab` shares a name prefix with `packages/a`, its issues must not end up in both suites
+    const config = () =>
+        createConfig({
+            directories: ['a', 'ab'].map((name) => ({
+                path: join(root, 'packages', name),
+                tsconfig: join(root, 'packages', name, 'tsconfig.json'),
+                report: join(root, `${name}.json`),
+            })),
+        });
+
+    beforeEach(() => {
+        writeFiles({
+            'packages/a/tsconfig.json': '{}',
+            'packages/ab/tsconfig.json': '{}',
+            'packages/a/main.ts': "import { x } from './missing';\nconsole.log(x);\n",
+            'packages/ab/main.ts': "import { y } from './gone';\nimport { z } from './lost';\nconsole.log(y, z);\n",
+        });
+    });
+
+    it('writes SARIF and JUnit reports with one suite per directory', () => {
+        const { status } = runCli(
+            ['check', '--no-cache', '--format', 'sarif=out.sarif', '--format', 'junit=out.xml'],
+            config(),
+        );
+        expect(status).toBe(0);
+
+        const sarif = JSON.parse(readSource('out.sarif'));
+        const results = sarif.runs[0].results;
+        expect(results.map((result: { ruleId: string }) => result.ruleId)).toEqual([
+            'unresolved',
+            'unresolved',
+            'unresolved',
+        ]);
+        expect(results[0].locations[0].physicalLocation).toEqual({
+            artifactLocation: { uri: 'packages/a/main.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 1, startColumn: 19, endLine: 1, endColumn: 30 },
+        });
+
+        const junit = readSource('out.xml');
+        expect(junit).toContain('<testsuites name="repofix" tests="3" failures="3">');
+        expect(junit).toContain('<testsuite name="packages/a" tests="1" failures="1">');
+        expect(junit).toContain('<testsuite name="packages/ab" tests="2" failures="2">');
+    });
+
+    it('prints GitHub annotations and a Markdown summary', () => {
+        const { output } = runCli(['check', '--no-cache', '--format', 'github', '--format', 'markdown'], config());
+
+        expect(output).toMatch(
+            /^::error file=packages\/a\/main\.ts,line=1,col=19,endLine=1,endColumn=30,title=repofix \(unresolved\)::/m,
+        );
+        expect(output).toContain('| packages/a | 1 | 1 |');
+        expect(output).toContain('| packages/ab | 1 | 2 |');
+        expect(output).toContain('| error | `packages/ab/main.ts:2` | unresolved |');
+    });
+});
+
+describe('incremental mode', () => {
+    function git(...args: string[]) {
+        const result = spawnSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+            cwd: root,
+            encoding: 'utf-8',
+        });
+        if (result.status !== 0) throw new Error(result.stderr);
+    }
+
+    function checkedFiles(issues: ImportIssue[]): string[] {
+        return [...new Set(issues.map((issue) => issue.file.replace(/\\/g, '/')))].sort();
+    }
+
+    beforeEach(() => {
+        writeFiles({
+            'src/util.ts': 'export const x = 1;\n',
+            'src/lib/thing.ts': 'export const y = 2;\n',
+            'src/app/main.ts': "import { x } from '../util';\nconsole.log(x);\n",
+            'src/app/other.ts': "import { y } from '../lib/thing';\nconsole.log(y);\n",
+        });
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+    });
+
+    it('checks staged files and the files importing them', async () => {
+        writeFiles({ 'src/util.ts': 'export const x = 3;\n' });
+        git('add', 'src/util.ts');
+
+        const report = await analyze({ config: createConfig(), changed: true });
+
+        expect(checkedFiles(report.issues)).toEqual(['src/app/main.ts']);
+    });
+
+    it('rechecks the importers of a deleted module', async () => {
+        git('rm', '-q', 'src/lib/thing.ts');
+
+        const report = await analyze({ config: createConfig(), changed: true });
+
+        expect(checkedFiles(report.issues)).toEqual(['src/app/other.ts']);
+        expect(rulesOf(report.issues)).toContain('unresolved');
+    });
+
+    it('only reports cycles that include a checked file', async () => {
+        writeFiles({
+            'src/cycle/a.ts': "import { b } from './b';\nexport const a = () => b;\n",
+            'src/cycle/b.ts': "import { a } from './a';\nexport const b = () => a;\n",
+        });
+        git('add', '-A');
+        git('commit', '-q', '-m', 'cycle');
+        writeFiles({ 'src/util.ts': 'export const x = 3;\n' });
+        git('add', 'src/util.ts');
+
+        expect(rulesOf((await analyze({ config: createConfig(), changed: true })).issues)).not.toContain('cycle');
+
+        writeFiles({ 'src/cycle/b.ts': "import { a } from './a';\nexport const b = () => a();\n" });
+        git('add', 'src/cycle/b.ts');
+
+        expect(rulesOf((await analyze({ config: createConfig(), changed: true })).issues)).toContain('cycle');
+    });
+
+    it('checks files changed since a ref, including untracked ones', async () => {
+        writeFiles({ 'src/app/new.ts': "import { y } from '../lib/thing';\nconsole.log(y);\n" });
+
+        const report = await analyze({ config: createConfig(), since: 'HEAD' });
+
+        expect(checkedFiles(report.issues)).toEqual(['src/app/new.ts']);
+        await expect(analyze({ config: createConfig(), since: 'no-such-ref' })).rejects.toThrow(
+            'Could not list changed files',
+        );
+    });
+});
+
+describe('orphaned modules', () => {
+    beforeEach(() => {
+        writeFiles({
+            'src/index.ts': "import { used } from './lib';\nconsole.log(used);\n",
+            'src/lib.ts': 'export const used = 1;\nexport const unused = 2;\n',
+            'src/old.ts': 'export const old = 3;\n',
+            'src/pages/home.ts': 'export const home = 4;\n',
+            'src/components/pages/card.ts': 'export const card = 5;\n',
+        });
+    });
+
+    function findOrphans(args: string[] = []): { file: string; rule: string; issue: string }[] {
+        const { status } = runCli(
+            ['orphans', '--format', 'json=orphans.json', ...args],
+            createConfig({ entries: ['src/index.ts'] }),
+        );
+        expect(status).toBe(0);
+        return JSON.parse(readSource('orphans.json')).issues;
+    }
+
+    it('reports unreachable modules and unused exports', () => {
+        const issues = findOrphans();
+
+        expect(issues.map(({ file, rule, issue }) => `${file} ${rule}: ${issue}`).sort()).toEqual([
+            'src/components/pages/card.ts orphan-module: Module is not reachable from any entry point',
+            "src/lib.ts unused-export: Export 'unused' is never imported",
+            'src/old.ts orphan-module: Module is not reachable from any entry point',
+        ]);
+        expect(existsSync(join(root, 'src/old.ts'))).toBe(true);
+    });
+
+    it('deletes orphaned modules only with --delete-orphans', () => {
+        findOrphans(['--delete-orphans', '--dry-run']);
+        expect(existsSync(join(root, 'src/old.ts'))).toBe(true);
+
+        findOrphans(['--delete-orphans']);
+        expect(existsSync(join(root, 'src/old.ts'))).toBe(false);
+        expect(existsSync(join(root, 'src/components/pages/card.ts'))).toBe(false);
+        expect(existsSync(join(root, 'src/lib.ts'))).toBe(true);
+    });
+});
+
+describe('dependency audit', () => {
+    const manifest = {
+        name: 'fixture',
+        dependencies: { lib: '^1.0.0', unused: '^1.0.0', 'test-lib': '^1.0.0', 'script-lib': '^1.0.0' },
+    };
+
+    function installPackage(name: string, version: string) {
+        writeFiles({
+            [`node_modules/${name}/package.json`]: JSON.stringify({ name, version, types: 'index.d.ts' }),
+            [`node_modules/${name}/index.d.ts`]: 'export declare const value: number;\n',
+        });
+    }
+
+    beforeEach(() => {
+        ['lib', 'unused', 'test-lib', 'script-lib'].forEach((name) => installPackage(name, '1.0.0'));
+        installPackage('undeclared', '2.1.0');
+        writeFiles({
+            'package.json': JSON.stringify(manifest, null, 2),
+            'src/main.ts':
+                "import { value } from 'lib';\nimport { value as other } from 'undeclared';\nconsole.log(value, other);\n",
+            'src/main.test.ts': "import { value } from 'test-lib';\nconsole.log(value);\n",
+            'scripts/build.ts': "import { value } from 'script-lib';\nconsole.log(value);\n",
+        });
+    });
+
+    function auditIssues(issues: ImportIssue[]): string[] {
+        return issues
+            .filter((issue) => issue.rule?.endsWith('-dependency'))
+            .map((issue) => `${issue.rule} ${issue.importPath}`)
+            .sort();
+    }
+
+    it('reports undeclared, unused and test-only dependencies', async () => {
+        const report = await analyze({ config: createConfig() });
+
+        expect(auditIssues(report.issues)).toEqual([
+            'test-only-dependency test-lib',
+            'undeclared-dependency undeclared',
+            'unused-dependency unused',
+        ]);
+        const undeclared = report.issues.find((issue) => issue.rule === 'undeclared-dependency')!;
+        expect(undeclared.suggestion).toBe('Add "undeclared": "^2.1.0" to dependencies');
+        expect(JSON.parse(readSource('package.json'))).toEqual(manifest);
+    });
+
+    it('edits package.json with --fix-dependencies', () => {
+        const { status } = runCli(['check', '--fix-dependencies', '--no-cache']);
+
+        expect(status).toBe(0);
+        expect(JSON.parse(readSource('package.json'))).toEqual({
+            name: 'fixture',
+            dependencies: { lib: '^1.0.0', 'script-lib': '^1.0.0', undeclared: '^2.1.0' },
+            devDependencies: { 'test-lib': '^1.0.0' },
+        });
+    });
+
+    it('only runs in incremental mode when package.json changed', async () => {
+        const git = (...args: string[]) =>
+            spawnSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root });
+        git('init', '-q');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+
+        writeFiles({ 'src/main.ts': readSource('src/main.ts') + 'console.log(1);\n' });
+        expect(auditIssues((await analyze({ config: createConfig(), since: 'HEAD' })).issues)).toEqual([]);
+
+        writeFiles({ 'package.json': JSON.stringify({ ...manifest, version: '1.0.1' }, null, 2) });
+        expect(auditIssues((await analyze({ config: createConfig(), since: 'HEAD' })).issues)).toHaveLength(3);
+    });
+});
+
+describe('special case conditions', () => {
+    beforeEach(() => {
+        writeFiles({
+            'src/app/main.ts': "import { y } from 'legacy';\nconsole.log(y);\n",
+            'src/lib/main.ts': "import { y } from 'legacy';\nconsole.log(y);\n",
+        });
+    });
+
+    const config = (conditions: object) =>
+        createConfig({
+            specialCases: { legacy: { action: 'rename', value: 'modern', ...conditions } } as Config['specialCases'],
+        });
+
+    it('only applies to the included files', async () => {
+        const report = await analyze({ config: config({ include: ['app/**'] }) });
+
+        expect(report.issues.filter((issue) => issue.rule === 'special-case').map((issue) => issue.file)).toEqual([
+            'src/app/main.ts',
+        ]);
+    });
+
+    it('rejects conditions of the wrong type', async () => {
+        await expect(analyze({ config: config({ include: 'app/**' }) })).rejects.toThrow(
+            `Invalid special case "legacy" in the config: 'include' must be a list of globs`,
+        );
+
+        const { status, output } = runCli(['check'], config({ include: 'app/**' }));
+        expect(status).toBe(1);
+        expect(output).toContain(`Invalid special case "legacy" in the config: 'include' must be a list of globs`);
+    });
+});
+
+describe('commented imports', () => {
+    beforeEach(() => {
+        writeFiles({ 'src/util.ts': 'export const x = 1;\n', 'src/lib/y.ts': 'export const y = 2;\n' });
+    });
+
+    const source = [
+        "// import { x } from '../util';",
+        '/* import {',
+        '    y,',
+        "} from '../lib/y'; */",
+        'const text = "// import { z } from \'nowhere\';";',
+        '// we import this from the API',
+        'export function run() {',
+        "    // import { x } from '../util';",
+        '    return [x, y, text];',
+        '}',
+        '',
+    ].join('\n');
+
+    it('finds imports that start a line of a comment', async () => {
+        writeFiles({ 'src/app/main.ts': source });
+
+        const report = await analyze({ config: createConfig() });
+
+        const commented = report.issues.filter((issue) => issue.rule === 'commented-import');
+        expect(commented.map((issue) => `${issue.line} ${issue.importPath}`)).toEqual([
+            '1 ../util',
+            '2 ../lib/y',
+            '8 ../util',
+        ]);
+        expect(commented[0].suggestion).toBe("Uncomment and change to: import { x } from '@/util';");
+    });
+
+    it('uncomments top-level imports with their specifier fixed', async () => {
+        writeFiles({ 'src/app/main.ts': source });
+        const config = createConfig();
+
+        await applyFixes(await analyze({ config }), (issue) => issue.rule === 'commented-import', { config });
+
+        expect(readSource('src/app/main.ts')).toBe(
+            source
+                .replace("// import { x } from '../util';", "import { x } from '@/util';")
+                .replace("/* import {\n    y,\n} from '../lib/y'; */", "import {\n    y,\n} from '@/lib/y';"),
+        );
+    });
+
+    it('deletes duplicated, unresolvable and stale imports with --prune-commented', () => {
+        writeFiles({
+            'src/main.ts': [
+                "import { x } from './util';",
+                "// import { x } from './util';",
+                "// import { gone } from './gone';",
+                "// import { y as unused } from './lib/y';",
+                "// import { y } from './lib/y';",
+                'console.log(x, y);',
+                '',
+            ].join('\n'),
+        });
+
+        const { status } = runCli(['fix', '--prune-commented', '--no-cache']);
+
+        expect(status).toBe(0);
+        expect(readSource('src/main.ts')).toBe(
+            ["import { x } from '@/util';", "// import { y } from './lib/y';", 'console.log(x, y);', ''].join('\n'),
+        );
+    });
+});
+
+describe('concurrent API calls', () => {
+    it('run one after another with their own options', async () => {
+        writeFiles({
+            'src/util.ts': 'export const x = 1;\n',
+            'src/app/main.ts': "import { x } from '../util';\nconsole.log(x);\n",
+        });
+
+        const [always, never] = await Promise.all([
+            analyze({ config: createConfig({ style: { preferAlias: 'always' } }) }),
+            analyze({ config: createConfig({ style: { preferAlias: 'never' } }) }),
+        ]);
+
+        expect(always.issues).toHaveLength(1);
+        expect(never.issues).toHaveLength(0);
+    });
+});
+
+describe('applyFixes options', () => {
+    const source = "import { Button } from '../lib/Buton';\nconsole.log(Button);\n";
+    const manifest = JSON.stringify({ name: 'fixture', dependencies: { unused: '^1.0.0' } }, null, 2) + '\n';
+
+    beforeEach(() => {
+        writeFiles({
+            'package.json': manifest,
+            'src/lib/Button.ts': 'export const Button = 1;\n',
+            'src/app/main.ts': source,
+        });
+    });
+
+    it('leaves package.json and guessed fixes alone by default', async () => {
+        const config = createConfig();
+        const report = await analyze({ config });
+        expect(rulesOf(report.issues)).toEqual(['unresolved', 'unused-dependency']);
+
+        const result = await applyFixes(report, undefined, { config });
+
+        expect(result.fixedIssues).toBe(0);
+        expect(readSource('package.json')).toBe(manifest);
+        expect(readSource('src/app/main.ts')).toBe(source);
+    });
+
+    it('applies them when asked to', async () => {
+        const config = createConfig();
+
+        await applyFixes(await analyze({ config }), undefined, {
+            config,
+            fixDependencies: true,
+            applyGuesses: true,
+        });
+
+        expect(JSON.parse(readSource('package.json')).dependencies).toEqual({});
+        expect(readSource('src/app/main.ts')).toBe("import { Button } from '@/lib/Button';\nconsole.log(Button);\n");
+    });
+});
@@ -1,11 +1,40 @@
 //non-tui version
-import { Project, SourceFile, SyntaxKind } from 'ts-morph';
-import { resolve, relative, dirname, join } from 'path';
-import { existsSync, readdirSync, readFileSync, writeFileSync, statSync, mkdirSync, unlinkSync } from 'fs';
+import {
+    FileSystemRefreshResult,
+    Identifier,
+    ImportDeclaration,
+    Node,
+    NoSubstitutionTemplateLiteral,
+    Project,
+    SourceFile,
+    StringLiteral,
+    SyntaxKind,
+    ts,
+} from 'ts-morph';
+import { resolve, relative, dirname, join, basename, sep, isAbsolute } from 'path';
+import {
+    existsSync,
+    readdirSync,
+    readFileSync,
+    writeFileSync,
+    statSync,
+    mkdirSync,
+    unlinkSync,
+    renameSync,
+    watch,
+    FSWatcher,
+} from 'fs';
 import * as readlineSync from 'readline-sync';
 import chalk from 'chalk';
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import { builtinModules } from 'module';
+import { createTwoFilesPatch } from 'diff';
+import minimatch from 'minimatch';
+import * as semver from 'semver';
 import fetch from 'node-fetch';
 import os from 'os';
+import { fileURLToPath } from 'url';
 
 const CONFIG_PATH = './repofix.config.json';
 const COMMUNITY_DB_URL = 'https://raw.githubusercontent.com/ubuntupunk/repofix/main/special-cases.json';
@@ -13,29 +42,127 @@ const COMMUNITY_DB_URL = 'https://raw.githubusercontent.com/ubuntupunk/repofix/m
 interface AliasConfig {
     path: string;
     description: string;
+    // false when only the bare alias is mapped (e.g. "@config": ["src/config.ts"]), so `path` is a file
+    wildcard?: boolean;
+    // File the bare alias maps to when a tsconfig maps both "@ui" and "@ui/*"
+    exact?: string;
+    fallbacks?: string[];
 }
 
+type AliasMap = { [key: string]: AliasConfig };
+
 interface DirectoryConfig {
     path: string;
     tsconfig: string;
     report: string;
     packageJson?: string;
     dependencies?: { [key: string]: string };
+    // Aliases from this directory's tsconfig; they only apply to files the directory owns
+    aliases?: AliasMap;
+    // Overrides the shared style policy for files this directory owns
+    style?: StylePolicy;
+}
+
+interface StylePolicy {
+    // 'always' suggests an alias whenever one matches (the default), 'never' keeps imports relative and
+    // 'across-folders' wants relative imports within a top-level folder and aliases between folders
+    preferAlias?: 'always' | 'never' | 'across-folders';
+    // Longest allowed chain of '../' segments
+    maxParentDepth?: number;
+    // 'strip' removes extensions, 'require' wants ESM output extensions such as '.js'
+    extensions?: 'strip' | 'require';
+    // Report specifiers ending in '/index'
+    noIndex?: boolean;
+    // Report imports of another workspace package's src folder
+    noPackageSrc?: boolean;
+    // Sort imports alphabetically within these groups, separated by blank lines
+    importGroups?: ImportGroup[];
+    // Merge imports of the same module, on by default
+    mergeImports?: boolean;
+}
+
+type ImportGroup = 'builtin' | 'external' | 'workspace' | 'alias' | 'relative';
+
+// Maps export names of the old module to export names of the new one.
+// 'default' stands for the default import and '*' for a namespace import.
+interface ImportMapping {
+    [oldExport: string]: string;
+}
+
+// Limits where a special case applies, so a migration can be rolled out one package at a time
+interface SpecialCaseConditions {
+    // Semver ranges the directory's dependencies must satisfy, e.g. { "next": ">=13" }
+    versions?: { [packageName: string]: string };
+    // Globs matched against file paths relative to the directory
+    include?: string[];
+    exclude?: string[];
+    // Report instead of fixing while the package being migrated to is not installed
+    requiresTarget?: boolean;
 }
 
-interface SpecialCase {
+interface SpecialCase extends SpecialCaseConditions {
     action: 'rename' | 'replace-method' | 'exclude';
     value?: string;
     prefixOnly?: boolean;
+    imports?: ImportMapping;
+}
+
+type Severity = 'error' | 'warning' | 'info';
+
+type IssueRule =
+    | 'unresolved'
+    | 'unknown-alias'
+    | 'alias-mismatch'
+    | 'alias-preference'
+    | 'cross-package'
+    | 'special-case'
+    | 'commented-import'
+    | 'cycle'
+    | 'layer-violation'
+    | 'orphan-module'
+    | 'unused-export'
+    | 'undeclared-dependency'
+    | 'unused-dependency'
+    | 'test-only-dependency'
+    | 'relative-preference'
+    | 'parent-depth'
+    | 'import-extension'
+    | 'index-path'
+    | 'package-src-import'
+    | 'duplicate-import'
+    | 'type-import'
+    | 'import-order';
+
+// Forbids imports from files matching `from` into files matching `disallow` (globs relative to the working directory)
+interface LayerRule {
+    from: string;
+    disallow: string[];
+    allow?: string[];
+    description?: string;
 }
 
 interface Config {
     directories: DirectoryConfig[];
-    aliases: { [key: string]: AliasConfig };
+    // Shared aliases that apply to every directory, e.g. ones added by hand
+    aliases: AliasMap;
     specialCases: { [key: string]: SpecialCase };
+    // Overrides for DEFAULT_SEVERITIES; 'off' leaves the rule out of CI results
+    severities?: { [rule: string]: Severity | 'off' };
+    // Lowest severity that fails `--ci`, defaults to 'error'
+    failOn?: Severity;
+    // Known issues that `--ci` ignores, defaults to repofix-baseline.json
+    baseline?: string;
+    layers?: LayerRule[];
+    // Extra entry points for `repofix orphans`, as globs relative to the working directory
+    entries?: string[];
+    // Packages the dependency audit never reports as unused, e.g. ones only loaded by tooling
+    ignoredDependencies?: string[];
+    style?: StylePolicy;
+    // Extra solution registries merged over the bundled special-cases.json: URLs, JSON files or directories
+    solutionSources?: string[];
 }
 
-interface CommunitySolution {
+interface CommunitySolution extends SpecialCaseConditions {
     from: string;
     to: string;
     action: 'rename' | 'replace-method' | 'exclude';
@@ -44,6 +171,7 @@ interface CommunitySolution {
     category: string;
     priority: number;
     examples: { before: string; after: string }[];
+    imports?: ImportMapping;
 }
 
 function scanMonorepo(rootDir: string): DirectoryConfig[] {
@@ -83,43 +211,446 @@ function scanMonorepo(rootDir: string): DirectoryConfig[] {
     return directories;
 }
 
-function extractAliases(tsconfigPath: string): { [key: string]: AliasConfig } {
-    const tsconfig = JSON.parse(readFileSync(tsconfigPath, 'utf-8'));
-    const baseDir = dirname(tsconfigPath);
-    const paths = tsconfig.compilerOptions?.paths || {};
-    const aliases: { [key: string]: AliasConfig } = {};
+interface LoadedTsconfig {
+    path: string;
+    options: ts.CompilerOptions;
+    fileNames: string[];
+    references: string[];
+}
 
-    for (const [alias, pathArray] of Object.entries(paths)) {
-        const cleanAlias = alias.replace('/*', '');
-        const cleanPath = (pathArray as string[])[0].replace('/*', '');
-        aliases[cleanAlias] = {
-            path: resolve(baseDir, cleanPath),
-            description: `Auto-detected from ${tsconfigPath}`,
-        };
+// Parses a tsconfig the way tsc does: JSONC syntax, `extends` chains (including packages) and references
+function loadTsconfig(tsconfigPath: string): LoadedTsconfig | null {
+    const { config: raw, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    if (error) {
+        const message = ts.flattenDiagnosticMessageText(error.messageText, '\n');
+        logger.log(chalk.yellow(`Warning: Failed to read ${tsconfigPath} (${message}). Skipping its aliases.`));
+        return null;
+    }
+    const parsed = ts.parseJsonConfigFileContent(raw, ts.sys, dirname(tsconfigPath), undefined, tsconfigPath);
+    return {
+        path: tsconfigPath,
+        options: parsed.options,
+        fileNames: parsed.fileNames,
+        references: (parsed.projectReferences || []).map((ref) => ts.resolveProjectReferencePath(ref)),
+    };
+}
+
+interface WorkspacePackage {
+    name: string;
+    dir: string;
+    packageJson: string;
+    manifest: {
+        main?: string;
+        types?: string;
+        exports?: unknown;
+        dependencies?: { [key: string]: string };
+        devDependencies?: { [key: string]: string };
+        peerDependencies?: { [key: string]: string };
+    };
+}
+
+// Reads the `packages` list of a pnpm-workspace.yaml without pulling in a YAML parser
+function readPnpmWorkspacePatterns(workspaceFile: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of readFileSync(workspaceFile, 'utf-8').split('\n')) {
+        if (/^packages\s*:/.test(line)) {
+            inPackages = true;
+        } else if (inPackages && /^\s*-/.test(line)) {
+            patterns.push(
+                line
+                    .replace(/^\s*-\s*/, '')
+                    .replace(/\s+#.*$/, '')
+                    .replace(/^['"]|['"]$/g, ''),
+            );
+        } else if (inPackages && /^\S/.test(line)) {
+            inPackages = false;
+        }
+    }
+    return patterns;
+}
+
+function getWorkspacePatterns(rootDir: string): string[] {
+    const pnpmWorkspace = join(rootDir, 'pnpm-workspace.yaml');
+    if (existsSync(pnpmWorkspace)) return readPnpmWorkspacePatterns(pnpmWorkspace);
+    const rootPkgPath = join(rootDir, 'package.json');
+    if (!existsSync(rootPkgPath)) return [];
+    const { workspaces } = JSON.parse(readFileSync(rootPkgPath, 'utf-8'));
+    return (Array.isArray(workspaces) ? workspaces : workspaces?.packages) || [];
+}
+
+function scanWorkspaces(rootDir: string): WorkspacePackage[] {
+    const patterns = getWorkspacePatterns(rootDir).map((p) => p.replace(/\/$/, ''));
+    const includes = patterns.filter((p) => !p.startsWith('!'));
+    const excludes = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+    const packages: WorkspacePackage[] = [];
+    if (!includes.length) return packages;
+
+    const scanDir = (dir: string) => {
+        for (const entry of readdirSync(dir, { withFileTypes: true })) {
+            if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+            const fullPath = join(dir, entry.name);
+            const relativePath = relative(rootDir, fullPath).replace(/\\/g, '/');
+            const packageJson = join(fullPath, 'package.json');
+            if (
+                existsSync(packageJson) &&
+                includes.some((p) => minimatch(relativePath, p)) &&
+                !excludes.some((p) => minimatch(relativePath, p))
+            ) {
+                const manifest = JSON.parse(readFileSync(packageJson, 'utf-8'));
+                if (manifest.name) packages.push({ name: manifest.name, dir: fullPath, packageJson, manifest });
+            }
+            scanDir(fullPath);
+        }
+    };
+
+    scanDir(rootDir);
+    return packages;
+}
+
+function findWorkspacePackage(filePath: string, packages: WorkspacePackage[]): WorkspacePackage | undefined {
+    return packages
+        .filter((pkg) => filePath.startsWith(pkg.dir + '/') || filePath.startsWith(pkg.dir + '\\'))
+        .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+function stripExtension(path: string): string {
+    return path.replace(/(\.d)?\.[mc]?[jt]sx?$/, '');
+}
+
+// Flattens an `exports` target (string, condition object or fallback array) into its file targets
+function collectExportTargets(target: unknown): string[] {
+    if (typeof target === 'string') return [target];
+    if (Array.isArray(target)) return target.flatMap(collectExportTargets);
+    if (target && typeof target === 'object') return Object.values(target).flatMap(collectExportTargets);
+    return [];
+}
+
+// Finds the specifier other packages should use to reach `resolvedFile`, honouring `exports`
+// subpaths. Returns null when the package does not expose the file.
+function toWorkspaceSpecifier(resolvedFile: string, pkg: WorkspacePackage): string | null {
+    const target = stripExtension(resolvedFile);
+    const { exports: exportsField, main, types } = pkg.manifest;
+
+    if (exportsField === undefined) {
+        const entries = [main, types, 'index'].filter(Boolean).map((e) => stripExtension(resolve(pkg.dir, e!)));
+        if (entries.includes(target)) return pkg.name;
+        return `${pkg.name}/${relative(pkg.dir, target).replace(/\\/g, '/')}`;
+    }
+
+    const subpaths =
+        typeof exportsField === 'object' &&
+        exportsField !== null &&
+        Object.keys(exportsField).some((k) => k.startsWith('.'))
+            ? Object.entries(exportsField as { [key: string]: unknown })
+            : [['.', exportsField] as [string, unknown]];
+    for (const [subpath, value] of subpaths) {
+        for (const exportTarget of collectExportTargets(value)) {
+            const absoluteTarget = stripExtension(resolve(pkg.dir, exportTarget));
+            if (!exportTarget.includes('*')) {
+                if (absoluteTarget === target) return subpath === '.' ? pkg.name : `${pkg.name}/${subpath.slice(2)}`;
+                continue;
+            }
+            const [prefix, suffix] = absoluteTarget.split('*');
+            if (
+                target.startsWith(prefix) &&
+                target.endsWith(suffix) &&
+                target.length >= prefix.length + suffix.length
+            ) {
+                const match = target.slice(prefix.length, target.length - suffix.length);
+                return `${pkg.name}/${subpath.slice(2).replace('*', match)}`;
+            }
+        }
+    }
+    return null;
+}
+
+function declaresDependency(pkg: WorkspacePackage, name: string): boolean {
+    const { dependencies, devDependencies, peerDependencies } = pkg.manifest;
+    return !!(dependencies?.[name] || devDependencies?.[name] || peerDependencies?.[name]);
+}
+
+function extractAliases(tsconfigPath: string, visited = new Set<string>()): AliasMap {
+    const aliases: AliasMap = {};
+    if (visited.has(resolve(tsconfigPath))) return aliases;
+    visited.add(resolve(tsconfigPath));
+
+    const tsconfig = loadTsconfig(tsconfigPath);
+    if (!tsconfig) return aliases;
+    for (const reference of tsconfig.references) {
+        Object.assign(aliases, extractAliases(reference, visited));
+    }
+
+    // Without baseUrl, paths are relative to the config that declares them, which may be an extended one
+    const { paths = {}, baseUrl, pathsBasePath } = tsconfig.options;
+    const baseDir = baseUrl || (pathsBasePath as string | undefined) || dirname(tsconfigPath);
+    const description = `Auto-detected from ${tsconfigPath}`;
+
+    for (const [pattern, pathArray] of Object.entries(paths)) {
+        const wildcard = pattern.endsWith('/*');
+        const cleanAlias = wildcard ? pattern.slice(0, -2) : pattern;
+        if (!cleanAlias || cleanAlias.includes('*')) continue;
+        const [target, ...otherTargets] = pathArray.map((p) =>
+            resolve(baseDir, wildcard ? p.replace(/\/?\*$/, '') : p),
+        );
+        if (!target) continue;
+        const fallbacks = otherTargets.length ? otherTargets : undefined;
+
+        const existing = aliases[cleanAlias];
+        if (wildcard) {
+            const exact = existing && getExactAliasTarget(existing);
+            aliases[cleanAlias] = { path: target, description, wildcard, fallbacks, exact };
+        } else if (existing?.wildcard) {
+            existing.exact = target;
+        } else {
+            aliases[cleanAlias] = { path: target, description, wildcard, fallbacks };
+        }
     }
     return aliases;
 }
 
-async function fetchCommunitySolutions(): Promise<CommunitySolution[]> {
-    const timeoutPromise = new Promise<CommunitySolution[]>((_, reject) => {
-        setTimeout(() => reject(new Error('Timeout')), 5000);
-    });
+// Solution files are either a bare array (version 1) or { "version": n, "solutions": [...] }
+const SOLUTIONS_SCHEMA_VERSION = 1;
+const SOLUTION_ACTIONS: CommunitySolution['action'][] = ['rename', 'replace-method', 'exclude'];
+// Remote sources are re-fetched at most once a day unless the server sends its own max-age
+const SOLUTIONS_MAX_AGE = 24 * 60 * 60 * 1000;
+
+interface CachedSolutionSource {
+    url: string;
+    etag?: string;
+    fetchedAt: number;
+    maxAge: number;
+    body: unknown;
+}
+
+interface SolutionSource {
+    name: string;
+    solutions: CommunitySolution[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Returns the reason an entry does not match CommunitySolution, or null when it does
+function validateSolution(entry: unknown): string | null {
+    if (!isPlainObject(entry)) return 'not an object';
+    if (typeof entry.from !== 'string' || !entry.from) return "'from' must be a non-empty string";
+    if (typeof entry.to !== 'string') return "'to' must be a string";
+    if (!SOLUTION_ACTIONS.some((action) => action === entry.action)) {
+        return `'action' must be one of ${SOLUTION_ACTIONS.join(', ')}`;
+    }
+    if (typeof entry.description !== 'string') return "'description' must be a string";
+    if (typeof entry.category !== 'string') return "'category' must be a string";
+    if (typeof entry.priority !== 'number') return "'priority' must be a number";
+    if (entry.prefixOnly !== undefined && typeof entry.prefixOnly !== 'boolean')
+        return "'prefixOnly' must be a boolean";
+    if (
+        !Array.isArray(entry.examples) ||
+        entry.examples.some(
+            (example) =>
+                !isPlainObject(example) || typeof example.before !== 'string' || typeof example.after !== 'string',
+        )
+    ) {
+        return "'examples' must be a list of { before, after } strings";
+    }
+    if (
+        entry.imports !== undefined &&
+        (!isPlainObject(entry.imports) || Object.values(entry.imports).some((to) => typeof to !== 'string'))
+    ) {
+        return "'imports' must map names to strings";
+    }
+    return validateConditions(entry);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// Checks the optional conditions of an entry: versions, include, exclude and requiresTarget
+function validateConditions(entry: unknown): string | null {
+    if (!isPlainObject(entry)) return 'not an object';
+    if (entry.versions !== undefined) {
+        if (!isPlainObject(entry.versions)) return "'versions' must be an object";
+        for (const [name, range] of Object.entries(entry.versions)) {
+            if (typeof range !== 'string' || !semver.validRange(range))
+                return `'versions.${name}' is not a semver range`;
+        }
+    }
+    for (const field of ['include', 'exclude']) {
+        if (entry[field] !== undefined && !isStringList(entry[field])) return `'${field}' must be a list of globs`;
+    }
+    if (entry.requiresTarget !== undefined && typeof entry.requiresTarget !== 'boolean') {
+        return "'requiresTarget' must be a boolean";
+    }
+    return null;
+}
 
-    const fetchPromise = fetch(COMMUNITY_DB_URL).then((response) => {
-        if (!response.ok) throw new Error(`HTTP ${response.status}`);
-        return response.json() as Promise<CommunitySolution[]>;
+function parseSolutions(name: string, body: unknown): CommunitySolution[] {
+    const version = Array.isArray(body) ? 1 : isPlainObject(body) ? body.version : undefined;
+    const entries = Array.isArray(body) ? body : isPlainObject(body) ? body.solutions : undefined;
+    if (typeof version !== 'number' || !Array.isArray(entries)) {
+        logger.log(chalk.yellow(`Warning: ${name} is not a solutions file. Skipping it.`));
+        return [];
+    }
+    if (version > SOLUTIONS_SCHEMA_VERSION) {
+        logger.log(
+            chalk.yellow(
+                `Warning: ${name} uses solutions schema v${version}; this repofix reads up to v${SOLUTIONS_SCHEMA_VERSION}.`,
+            ),
+        );
+        return [];
+    }
+    return entries.filter((entry: unknown, index): entry is CommunitySolution => {
+        const error = validateSolution(entry);
+        if (error) logger.log(chalk.yellow(`Warning: Skipping solution ${index} in ${name}: ${error}`));
+        return !error;
     });
+}
+
+function readSolutionsFile(path: string): CommunitySolution[] {
+    try {
+        return parseSolutions(relative(process.cwd(), path) || path, JSON.parse(readFileSync(path, 'utf-8')));
+    } catch (err) {
+        logger.log(chalk.yellow(`Warning: Could not read solutions from ${path} (${err.message}).`));
+        return [];
+    }
+}
+
+function getSolutionCachePath(url: string): string {
+    return join(CACHE_DIR, 'solutions', `${hashText(url)}.json`);
+}
+
+// Serves remote sources from the disk cache while they are fresh, revalidates them with their
+// ETag once they expire, and falls back to the stale copy when the network is unavailable
+async function fetchSolutionSource(url: string): Promise<CommunitySolution[]> {
+    const cachePath = getSolutionCachePath(url);
+    let cached: CachedSolutionSource | null = null;
+    try {
+        if (existsSync(cachePath)) cached = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    } catch {
+        cached = null;
+    }
+
+    if (cached && (runOptions.offline || (runOptions.useCache && Date.now() - cached.fetchedAt < cached.maxAge))) {
+        return parseSolutions(url, cached.body);
+    }
+    if (runOptions.offline) {
+        logger.log(chalk.yellow(`Warning: ${url} has not been fetched yet and --offline is set. Skipping it.`));
+        return [];
+    }
 
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        setTimeout(() => reject(new Error('Timeout')), 5000).unref();
+    });
     try {
-        return await Promise.race([fetchPromise, timeoutPromise]);
+        const response = await Promise.race([
+            fetch(url, { headers: cached?.etag ? { 'If-None-Match': cached.etag } : {} }),
+            timeoutPromise,
+        ]);
+        const maxAgeHeader = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+        const maxAge = maxAgeHeader ? parseInt(maxAgeHeader[1]) * 1000 : cached?.maxAge ?? SOLUTIONS_MAX_AGE;
+        let body: unknown;
+        if (response.status === 304 && cached) {
+            body = cached.body;
+        } else if (response.ok) {
+            body = await response.json();
+        } else {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        const entry: CachedSolutionSource = {
+            url,
+            etag: response.headers.get('etag') || cached?.etag,
+            fetchedAt: Date.now(),
+            maxAge,
+            body,
+        };
+        mkdirSync(dirname(cachePath), { recursive: true });
+        writeFileSync(cachePath, JSON.stringify(entry));
+        return parseSolutions(url, body);
     } catch (err) {
-        console.log(chalk.yellow(`Warning: Failed to fetch community solutions (${err.message}). Continuing locally.`));
+        if (cached) {
+            logger.log(
+                chalk.yellow(`Warning: Failed to fetch ${url} (${err.message}). Using the copy cached on disk.`),
+            );
+            return parseSolutions(url, cached.body);
+        }
+        logger.log(chalk.yellow(`Warning: Failed to fetch ${url} (${err.message}). Continuing without it.`));
         return [];
     }
 }
 
+// A source is an http(s) URL, a JSON file, or a directory (plain path or file:// URL) whose
+// .json files are read in name order. Relative paths are relative to the working directory.
+async function loadSolutionSource(source: string): Promise<SolutionSource[]> {
+    if (/^https?:\/\//.test(source)) return [{ name: source, solutions: await fetchSolutionSource(source) }];
+    const path = source.startsWith('file://') ? fileURLToPath(source) : resolve(source);
+    if (!existsSync(path)) {
+        logger.log(chalk.yellow(`Warning: Solutions source ${source} does not exist. Skipping it.`));
+        return [];
+    }
+    if (!statSync(path).isDirectory()) return [{ name: source, solutions: readSolutionsFile(path) }];
+    return readdirSync(path)
+        .filter((name) => name.endsWith('.json'))
+        .sort()
+        .map((name) => join(path, name))
+        .map((file) => ({ name: relative(process.cwd(), file), solutions: readSolutionsFile(file) }));
+}
+
+function getBundledSolutionsPath(): string | undefined {
+    return [join(__dirname, 'special-cases.json'), join(__dirname, '..', 'special-cases.json')].find((candidate) =>
+        existsSync(candidate),
+    );
+}
+
+// Merges the solutions bundled with repofix with the configured sources. Later sources win when
+// two of them disagree about the same `from`, and every such conflict is reported.
+async function loadCommunitySolutions(): Promise<CommunitySolution[]> {
+    const bundledPath = getBundledSolutionsPath();
+    const sources: SolutionSource[] = bundledPath
+        ? [{ name: 'bundled', solutions: readSolutionsFile(bundledPath) }]
+        : [];
+    for (const source of config?.solutionSources ?? [COMMUNITY_DB_URL]) {
+        sources.push(...(await loadSolutionSource(source)));
+    }
+
+    const merged = new Map<string, { solution: CommunitySolution; source: string }>();
+    for (const { name, solutions } of sources) {
+        for (const solution of solutions) {
+            const existing = merged.get(solution.from);
+            if (
+                existing &&
+                existing.source !== name &&
+                (existing.solution.to !== solution.to || existing.solution.action !== solution.action)
+            ) {
+                logger.log(
+                    chalk.yellow(
+                        `Warning: Conflicting solutions for '${solution.from}': ${existing.source} suggests ${existing.solution.action} → '${existing.solution.to}', ${name} suggests ${solution.action} → '${solution.to}'. Using ${name}.`,
+                    ),
+                );
+            }
+            merged.set(solution.from, { solution, source: name });
+        }
+    }
+    return [...merged.values()].map(({ solution }) => solution);
+}
+
+function toSpecialCase(solution: CommunitySolution): SpecialCase {
+    const { action, to, prefixOnly, imports, versions, include, exclude, requiresTarget } = solution;
+    return { action, value: to, prefixOnly, imports, versions, include, exclude, requiresTarget };
+}
+
+function parseImportMapping(input: string): ImportMapping | undefined {
+    const mapping: ImportMapping = {};
+    for (const pair of input.split(',')) {
+        const [from, to] = pair.split('=').map((part) => part.trim());
+        if (from && to) mapping[from] = to;
+    }
+    return Object.keys(mapping).length ? mapping : undefined;
+}
+
 async function initializeConfig() {
-    console.log(chalk.blue('Welcome to repocheck configuration setup!'));
+    logger.log(chalk.blue('Welcome to repocheck configuration setup!'));
     const mode = readlineSync.question(
         chalk.white(
             'Choose an option:\n  1. Scan monorepo and configure\n  2. Configure special cases only\n  3. Reset config\nEnter number (1-3): ',
@@ -133,10 +664,17 @@ async function initializeConfig() {
     if (mode === '1' || mode === '2') {
         if (mode === '1') {
             config.directories = scanMonorepo(process.cwd());
-            console.log(chalk.cyan('\nDetected directories:'));
+            logger.log(chalk.cyan('\nDetected directories:'));
             config.directories.forEach((dir, i) => {
-                console.log(chalk.white(`${i + 1}. ${dir.path} (tsconfig: ${dir.tsconfig})`));
+                logger.log(chalk.white(`${i + 1}. ${dir.path} (tsconfig: ${dir.tsconfig})`));
             });
+            const workspacePackages = scanWorkspaces(process.cwd());
+            if (workspacePackages.length) {
+                logger.log(chalk.cyan('\nDetected workspace packages:'));
+                workspacePackages.forEach((pkg) => {
+                    logger.log(chalk.white(`- ${pkg.name} (${relative(process.cwd(), pkg.dir)})`));
+                });
+            }
             const exclude = readlineSync.question(
                 chalk.white('Enter numbers to exclude (comma-separated, e.g., 1,3) or "none": '),
             );
@@ -146,14 +684,15 @@ async function initializeConfig() {
             }
 
             // Extract aliases
+            logger.log(chalk.cyan('\nDetected aliases:'));
             for (const dir of config.directories) {
-                Object.assign(config.aliases, extractAliases(dir.tsconfig));
+                dir.aliases = extractAliases(dir.tsconfig);
+                logger.log(chalk.blue(`${dir.path}:`));
+                Object.entries(dir.aliases).forEach(([alias, conf]) => {
+                    logger.log(chalk.white(`  ${alias}: ${conf.path} (${conf.description})`));
+                });
             }
-            console.log(chalk.cyan('\nDetected aliases:'));
-            Object.entries(config.aliases).forEach(([alias, conf]) => {
-                console.log(chalk.white(`${alias}: ${conf.path} (${conf.description})`));
-            });
-            if (readlineSync.keyInYN(chalk.green('Add or edit aliases manually?'))) {
+            if (readlineSync.keyInYN(chalk.green('Add shared aliases for all directories manually?'))) {
                 while (true) {
                     const alias = readlineSync.question(chalk.white('Enter alias (e.g., @app) or "done": '));
                     if (alias === 'done') break;
@@ -164,20 +703,20 @@ async function initializeConfig() {
         }
 
         // Configure special cases
-        const solutions = await fetchCommunitySolutions();
-        console.log(chalk.cyan('\nAvailable community solutions:'));
+        const solutions = await loadCommunitySolutions();
+        logger.log(chalk.cyan('\nAvailable community solutions:'));
         const categories = [...new Set(solutions.map((s) => s.category))];
         categories.forEach((category) => {
-            console.log(chalk.blue(`\n${category.toUpperCase()}:`));
+            logger.log(chalk.blue(`\n${category.toUpperCase()}:`));
             solutions
                 .filter((s) => s.category === category)
                 .sort((a, b) => a.priority - b.priority)
                 .forEach((sol) => {
-                    console.log(chalk.gray(`- ${sol.action}: "${sol.from}" → "${sol.to}" (${sol.description})`));
+                    logger.log(chalk.gray(`- ${sol.action}: "${sol.from}" → "${sol.to}" (${sol.description})`));
                     sol.examples.forEach((ex, i) => {
-                        console.log(chalk.gray(`  Example ${i + 1}:`));
-                        console.log(chalk.gray(`    Before: ${ex.before}`));
-                        console.log(chalk.gray(`    After: ${ex.after}`));
+                        logger.log(chalk.gray(`  Example ${i + 1}:`));
+                        logger.log(chalk.gray(`    Before: ${ex.before}`));
+                        logger.log(chalk.gray(`    After: ${ex.after}`));
                     });
                 });
         });
@@ -186,19 +725,15 @@ async function initializeConfig() {
             const category = readlineSync.question(chalk.white('Enter category (e.g., authentication) or "all": '));
             const filteredSolutions = category === 'all' ? solutions : solutions.filter((s) => s.category === category);
             if (filteredSolutions.length === 0) {
-                console.log(chalk.yellow(`No solutions found for category "${category}".`));
+                logger.log(chalk.yellow(`No solutions found for category "${category}".`));
             } else {
                 filteredSolutions.forEach((sol, i) => {
-                    console.log(chalk.white(`${i + 1}. ${sol.from} → ${sol.to} (${sol.description})`));
+                    logger.log(chalk.white(`${i + 1}. ${sol.from} → ${sol.to} (${sol.description})`));
                 });
                 const choice = readlineSync.question(chalk.white('Select a solution (number) or "skip": '));
                 if (choice !== 'skip') {
                     const selected = filteredSolutions[parseInt(choice) - 1];
-                    specialCases[selected.from] = {
-                        action: selected.action,
-                        value: selected.to,
-                        prefixOnly: selected.prefixOnly,
-                    };
+                    specialCases[selected.from] = toSpecialCase(selected);
                     continue;
                 }
             }
@@ -210,48 +745,269 @@ async function initializeConfig() {
             }) as 'rename' | 'replace-method' | 'exclude';
             let value: string | undefined;
             let prefixOnly: boolean | undefined;
+            let imports: ImportMapping | undefined;
             if (action === 'rename') {
                 value = readlineSync.question(chalk.white('New import path: '));
-                prefixOnly = readlineSync.keyInYN(chalk.white('Apply to prefix only?'));
+                prefixOnly = readlineSync.keyInYN(chalk.white('Apply to prefix only?')) === true;
             } else if (action === 'replace-method') {
                 value = readlineSync.question(chalk.white('New method source: '));
+                imports = parseImportMapping(
+                    readlineSync.question(
+                        chalk.white('Import mapping (e.g., createClient=useUser,default=*) or leave empty: '),
+                    ),
+                );
             }
-            specialCases[importPath] = { action, value, prefixOnly };
+            specialCases[importPath] = { action, value, prefixOnly, imports };
         }
         config.specialCases = specialCases;
     } else if (mode === '3') {
-        if (existsSync(CONFIG_PATH)) {
-            unlinkSync(CONFIG_PATH);
-            console.log(chalk.green('Config reset. Run again to create a new config.'));
-        } else {
-            console.log(chalk.yellow('No config found to reset.'));
-        }
-        process.exit(0);
+        resetConfig();
+    }
+
+    saveConfig(config);
+    return config;
+}
+
+function resetConfig() {
+    if (existsSync(CONFIG_PATH)) {
+        unlinkSync(CONFIG_PATH);
+        logger.log(chalk.green('Config reset. Run again to create a new config.'));
+    } else {
+        logger.log(chalk.yellow('No config found to reset.'));
     }
+    process.exit(0);
+}
 
+function saveConfig(config: Config) {
     if (!config.directories.length && !Object.keys(config.aliases).length && !Object.keys(config.specialCases).length) {
-        console.log(chalk.red('Config is empty. Aborting.'));
+        logger.log(chalk.red('Config is empty. Aborting.'));
         process.exit(1);
     }
     writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
-    console.log(chalk.green(`Config saved to ${CONFIG_PATH}`));
+    logger.log(chalk.green(`Config saved to ${CONFIG_PATH}`));
+}
+
+interface InitOptions {
+    include: string[];
+    exclude: string[];
+    aliases: { [alias: string]: string };
+    specialCaseCategories: string[];
+    specialCases: { [key: string]: SpecialCase };
+}
+
+// Seed file and flags for `init --yes`; flags are added on top of the seed file
+function readInitOptions(): InitOptions {
+    const seedPath = getArgValue('--seed');
+    let seed: Partial<InitOptions> = {};
+    if (seedPath) {
+        try {
+            seed = JSON.parse(readFileSync(seedPath, 'utf-8'));
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.log(chalk.red(`Could not read the --seed file ${seedPath}: ${reason}`));
+            process.exit(1);
+        }
+    }
+    const aliases = { ...seed.aliases };
+    for (const pair of getArgValues('--alias')) {
+        const [alias, path] = pair.split('=');
+        if (!alias || !path) {
+            logger.log(chalk.red(`Invalid --alias "${pair}". Expected <alias>=<path>, e.g. @app=./src`));
+            process.exit(1);
+        }
+        aliases[alias] = path;
+    }
+    return {
+        include: [...(seed.include || []), ...getArgValues('--include')],
+        exclude: [...(seed.exclude || []), ...getArgValues('--exclude')],
+        aliases,
+        specialCaseCategories: [...(seed.specialCaseCategories || []), ...getArgValues('--special-case-category')],
+        specialCases: { ...seed.specialCases },
+    };
+}
+
+function matchesDirectoryPattern(dir: DirectoryConfig, pattern: string): boolean {
+    const dirPath = relative(process.cwd(), dirname(dir.tsconfig)).replace(/\\/g, '/') || '.';
+    const normalized = pattern.replace(/^\.\//, '').replace(/\/$/, '');
+    return minimatch(dirPath, normalized) || dirPath === normalized || dirPath.startsWith(`${normalized}/`);
+}
+
+async function initializeConfigNonInteractive(options: InitOptions): Promise<Config> {
+    logger.log(chalk.blue('Creating repocheck configuration without prompts'));
+    const config: Config = { directories: [], aliases: {}, specialCases: {} };
+
+    config.directories = scanMonorepo(process.cwd()).filter(
+        (dir) =>
+            (!options.include.length || options.include.some((pattern) => matchesDirectoryPattern(dir, pattern))) &&
+            !options.exclude.some((pattern) => matchesDirectoryPattern(dir, pattern)),
+    );
+    for (const dir of config.directories) {
+        dir.aliases = extractAliases(dir.tsconfig);
+        logger.log(chalk.white(`${dir.path} (${Object.keys(dir.aliases).length} aliases)`));
+    }
+    for (const [alias, path] of Object.entries(options.aliases)) {
+        config.aliases[alias] = { path: resolve(path), description: 'Added from command line' };
+    }
+
+    if (options.specialCaseCategories.length) {
+        const solutions = await loadCommunitySolutions();
+        const categories = options.specialCaseCategories;
+        for (const solution of solutions) {
+            if (!categories.includes('all') && !categories.includes(solution.category)) continue;
+            config.specialCases[solution.from] = toSpecialCase(solution);
+        }
+    }
+    Object.assign(config.specialCases, options.specialCases);
+
+    saveConfig(config);
     return config;
 }
 
 let config: Config;
-if (!existsSync(CONFIG_PATH)) {
-    config = await initializeConfig();
-} else {
-    config = JSON.parse(readFileSync(CONFIG_PATH, 'utf-8'));
+
+function loadConfig(path = CONFIG_PATH): Config {
+    if (!existsSync(path)) throw new Error(`No config found at ${path}. Run "repofix init" to create one.`);
+    return validateConfig(JSON.parse(readFileSync(path, 'utf-8')));
+}
+
+// Throws on values that would otherwise be used unchecked later in the run
+function validateConfig(config: Config): Config {
+    if (config.failOn !== undefined && !SEVERITY_ORDER.includes(config.failOn)) {
+        throw new Error(
+            `Invalid failOn "${config.failOn}" in the config. Expected one of: ${SEVERITY_ORDER.join(', ')}`,
+        );
+    }
+    for (const [name, specialCase] of Object.entries(config.specialCases || {})) {
+        const error = validateConditions(specialCase);
+        if (error) throw new Error(`Invalid special case "${name}" in the config: ${error}`);
+    }
+    return config;
+}
+
+function getArgValue(name: string): string | undefined {
+    const index = process.argv.findIndex((arg) => arg === name || arg.startsWith(`${name}=`));
+    if (index === -1) return undefined;
+    const arg = process.argv[index];
+    return arg.includes('=') ? arg.slice(name.length + 1) : process.argv[index + 1];
+}
+
+// Collects every occurrence of a repeatable flag, also splitting comma-separated values
+function getArgValues(name: string): string[] {
+    const values: string[] = [];
+    process.argv.forEach((arg, index) => {
+        if (arg === name && process.argv[index + 1]) values.push(process.argv[index + 1]);
+        else if (arg.startsWith(`${name}=`)) values.push(arg.slice(name.length + 1));
+    });
+    return values.flatMap((value) => value.split(',')).filter(Boolean);
+}
+
+const COMMANDS = ['init', 'check', 'fix', 'move', 'watch', 'orphans', 'config'];
+
+// How a run behaves. The CLI builds it from its arguments, the API from its options.
+interface RunOptions {
+    ci: boolean;
+    // Overrides `baseline` and `failOn` from the config
+    baselinePath?: string;
+    failOn?: Severity;
+    updateBaseline: boolean;
+    patchPath?: string;
+    dryRun: boolean;
+    autoFix: boolean;
+    changedOnly: boolean;
+    since?: string;
+    useCache: boolean;
+    offline: boolean;
+    verifyFixes: boolean;
+    pruneCommented: boolean;
+    // `repofix orphans` deletes orphaned files only when asked to explicitly
+    deleteOrphans: boolean;
+    // package.json edits of the dependency audit are applied only when asked to explicitly
+    fixDependencies: boolean;
+    // Fuzzy "did you mean" guesses are only applied when someone picks them, never by a plain --fix
+    applyGuesses: boolean;
+    // Write each directory's JSON report to its `report` path
+    writeReports: boolean;
+    // Combined reports (`--format`) and graph exports (`--graph`), as `<name>[=<file>]`
+    formats: string[];
+    graphs: string[];
+}
+
+const DEFAULT_RUN_OPTIONS: RunOptions = {
+    ci: false,
+    updateBaseline: false,
+    dryRun: false,
+    autoFix: false,
+    changedOnly: false,
+    useCache: true,
+    offline: false,
+    verifyFixes: true,
+    pruneCommented: false,
+    deleteOrphans: false,
+    fixDependencies: false,
+    applyGuesses: false,
+    writeReports: true,
+    formats: [],
+    graphs: [],
+};
+
+function getCliRunOptions(command: string | undefined): RunOptions {
+    const patchPath = getArgValue('--patch');
+    const dryRun = process.argv.includes('--dry-run') || process.argv.includes('--diff') || !!patchPath;
+    return {
+        ci: process.argv.includes('--ci'),
+        baselinePath: getArgValue('--baseline'),
+        failOn: getArgValue('--fail-on') as Severity | undefined,
+        updateBaseline: process.argv.includes('--update-baseline'),
+        patchPath,
+        dryRun,
+        autoFix: command !== 'check' && (command === 'fix' || process.argv.includes('--fix') || dryRun),
+        changedOnly: process.argv.includes('--changed'),
+        since: getArgValue('--since'),
+        useCache: !process.argv.includes('--no-cache'),
+        offline: process.argv.includes('--offline'),
+        verifyFixes: !process.argv.includes('--no-verify'),
+        pruneCommented: process.argv.includes('--prune-commented'),
+        deleteOrphans: process.argv.includes('--delete-orphans'),
+        fixDependencies: process.argv.includes('--fix-dependencies'),
+        applyGuesses: false,
+        writeReports: true,
+        formats: getArgValues('--format'),
+        graphs: getArgValues('--graph'),
+    };
+}
+
+let runOptions: RunOptions = DEFAULT_RUN_OPTIONS;
+
+// Receives all progress and result output. Silent unless the CLI or an API caller provides one.
+interface Logger {
+    log(message: string): void;
+}
+
+const SILENT_LOGGER: Logger = { log: () => undefined };
+const CONSOLE_LOGGER: Logger = { log: (message) => console.log(message) };
+let logger: Logger = SILENT_LOGGER;
+
+// Decides whether a fix is applied. Without one, every fix is applied.
+interface Prompter {
+    confirmFix(issue: ImportIssue): boolean;
 }
 
-const AUTO_FIX = process.argv.includes('--fix');
-const INTERACTIVE = AUTO_FIX && process.argv.includes('--interactive');
+let prompter: Prompter | null = null;
+
+type ModuleSpecifierKind = 'import' | 'export' | 'dynamic-import' | 'require' | 'mock';
 
 interface ImportIssue {
     file: string;
     line: number;
+    // 1-based position of the module specifier, including its quotes
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
     importPath: string;
+    kind?: ModuleSpecifierKind;
+    resolver?: string;
+    rule?: IssueRule;
+    severity?: Severity;
     issue: string;
     suggestion: string | null;
     fixed?: boolean;
@@ -261,24 +1017,147 @@ interface ImportIssue {
 
 // [Previous functions remain unchanged: resolveImportPath, findMatchingAlias, convertToAliasPath, findCommentedImports, confirmFix]
 
-function resolveImportPath(importPath: string, file: SourceFile): string | null {
+// A place in a file that references another module by a string specifier
+interface ModuleSpecifierSite {
+    kind: ModuleSpecifierKind;
+    specifier: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    literal: StringLiteral | NoSubstitutionTemplateLiteral;
+    importDecl?: ImportDeclaration;
+    typeOnly?: boolean;
+}
+
+const MOCK_CALLEES = ['mock', 'doMock', 'unmock', 'requireActual', 'requireMock', 'importActual', 'importMock'];
+
+function collectModuleSpecifiers(file: SourceFile): ModuleSpecifierSite[] {
+    const sites: ModuleSpecifierSite[] = [];
+    const addSite = (
+        kind: ModuleSpecifierKind,
+        literal: Node | undefined,
+        importDecl?: ImportDeclaration,
+        typeOnly?: boolean,
+    ) => {
+        if (!Node.isStringLiteral(literal) && !Node.isNoSubstitutionTemplateLiteral(literal)) return;
+        const start = file.getLineAndColumnAtPos(literal.getStart());
+        const end = file.getLineAndColumnAtPos(literal.getEnd());
+        sites.push({
+            kind,
+            specifier: literal.getLiteralValue(),
+            line: start.line,
+            column: start.column,
+            endLine: end.line,
+            endColumn: end.column,
+            literal,
+            importDecl,
+            typeOnly,
+        });
+    };
+
+    for (const importDecl of file.getImportDeclarations()) {
+        addSite('import', importDecl.getModuleSpecifier(), importDecl, importDecl.isTypeOnly());
+    }
+    for (const exportDecl of file.getExportDeclarations()) {
+        addSite('export', exportDecl.getModuleSpecifier(), undefined, exportDecl.isTypeOnly());
+    }
+    for (const importEquals of file.getDescendantsOfKind(SyntaxKind.ImportEqualsDeclaration)) {
+        const reference = importEquals.getModuleReference();
+        if (Node.isExternalModuleReference(reference)) addSite('require', reference.getExpression());
+    }
+    for (const call of file.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const callee = call.getExpression();
+        const [firstArg] = call.getArguments();
+        if (callee.getKind() === SyntaxKind.ImportKeyword) {
+            addSite('dynamic-import', firstArg);
+        } else if (Node.isIdentifier(callee) && callee.getText() === 'require') {
+            addSite('require', firstArg);
+        } else if (
+            Node.isPropertyAccessExpression(callee) &&
+            ['jest', 'vi'].includes(callee.getExpression().getText()) &&
+            MOCK_CALLEES.includes(callee.getName())
+        ) {
+            addSite('mock', firstArg);
+        }
+    }
+    return sites.sort((a, b) => a.literal.getStart() - b.literal.getStart());
+}
+
+const moduleResolutionCaches = new WeakMap<Project, ts.ModuleResolutionCache>();
+
+// Mirrors the compiler's default when `moduleResolution` is not set explicitly
+function getModuleResolutionKind(options: ts.CompilerOptions): ts.ModuleResolutionKind {
+    if (options.moduleResolution) return options.moduleResolution;
+    const moduleKind =
+        options.module ??
+        (options.target && options.target >= ts.ScriptTarget.ES2015 ? ts.ModuleKind.ES2015 : ts.ModuleKind.CommonJS);
+    if (moduleKind === ts.ModuleKind.Node16) return ts.ModuleResolutionKind.Node16;
+    if (moduleKind === ts.ModuleKind.NodeNext) return ts.ModuleResolutionKind.NodeNext;
+    return moduleKind === ts.ModuleKind.CommonJS ? ts.ModuleResolutionKind.Node10 : ts.ModuleResolutionKind.Classic;
+}
+
+function describeResolver(options: ts.CompilerOptions): string {
+    return ts.ModuleResolutionKind[getModuleResolutionKind(options)].toLowerCase();
+}
+
+function resolveModuleFile(moduleName: string, file: SourceFile, kind?: ModuleSpecifierKind): string | null {
+    const project = file.getProject();
+    const options = project.getCompilerOptions();
+    let cache = moduleResolutionCaches.get(project);
+    if (!cache) {
+        cache = ts.createModuleResolutionCache(process.cwd(), (fileName) => fileName, options);
+        moduleResolutionCaches.set(project, cache);
+    }
+    // require() always resolves as CommonJS and import() as ESM; everything else follows the file's format
+    const mode =
+        kind === 'require'
+            ? ts.ModuleKind.CommonJS
+            : kind === 'dynamic-import'
+            ? ts.ModuleKind.ESNext
+            : file.compilerNode.impliedNodeFormat;
+    const { resolvedModule } = ts.resolveModuleName(
+        moduleName,
+        file.getFilePath(),
+        options,
+        project.getModuleResolutionHost(),
+        cache,
+        undefined,
+        mode,
+    );
+    return resolvedModule?.resolvedFileName ?? null;
+}
+
+// Turns a resolved file name back into the form a specifier would use for it
+function toSpecifierPath(resolvedFile: string, importPath: string): string {
+    const extension = importPath.match(/\.[mc]?[jt]sx?$/)?.[0];
+    const withoutExtension = stripExtension(resolvedFile);
+    if (extension) return withoutExtension + extension;
+    return importPath.endsWith('/index') ? withoutExtension : withoutExtension.replace(/\/index$/, '');
+}
+
+function resolveImportPath(
+    importPath: string,
+    file: SourceFile,
+    aliases: AliasMap,
+    kind?: ModuleSpecifierKind,
+): string | null {
     const fileDir = dirname(file.getFilePath());
+    const resolvedFile = resolveModuleFile(importPath, file, kind);
     if (importPath.startsWith('.')) {
-        const resolved = resolve(fileDir, importPath);
-        return existsSync(resolved) || existsSync(resolved + '.ts') || existsSync(resolved + '.tsx') ? resolved : null;
+        return resolvedFile ? resolve(fileDir, importPath) : null;
     }
+    if (resolvedFile) return toSpecifierPath(resolvedFile, importPath);
 
+    // Aliases added by hand are unknown to the compiler, so resolve their target as an absolute path
     const aliasRoot = importPath.split('/')[0];
     const aliasPath = importPath.includes('/') ? importPath.split('/').slice(0, 2).join('/') : aliasRoot;
+    const alias = aliases[aliasPath] ? aliasPath : aliases[aliasRoot] ? aliasRoot : null;
 
-    if (config.aliases[aliasPath]) {
-        const relativePart = importPath.replace(`${aliasPath}/`, '');
-        const resolved = resolve(config.aliases[aliasPath].path, relativePart);
-        return existsSync(resolved) || existsSync(resolved + '.ts') || existsSync(resolved + '.tsx') ? resolved : null;
-    } else if (config.aliases[aliasRoot]) {
-        const relativePart = importPath.replace(`${aliasRoot}/`, '');
-        const resolved = resolve(config.aliases[aliasRoot].path, relativePart);
-        return existsSync(resolved) || existsSync(resolved + '.ts') || existsSync(resolved + '.tsx') ? resolved : null;
+    if (alias) {
+        const relativePart = importPath === alias ? '' : importPath.slice(alias.length + 1);
+        const resolved = resolve(aliases[alias].path, relativePart);
+        return resolveModuleFile(resolved, file, kind) ? resolved : null;
     } else {
         try {
             return require.resolve(importPath, { paths: [process.cwd()] });
@@ -288,64 +1167,477 @@ function resolveImportPath(importPath: string, file: SourceFile): string | null
     }
 }
 
-function findMatchingAlias(resolvedPath: string | null): string | null {
+// File the bare alias specifier resolves to, if the tsconfig maps it
+function getExactAliasTarget(aliasConfig: AliasConfig): string | undefined {
+    return aliasConfig.wildcard === false ? aliasConfig.path : aliasConfig.exact;
+}
+
+function matchesExactAlias(resolvedPath: string, aliasConfig: AliasConfig): boolean {
+    const exactTarget = getExactAliasTarget(aliasConfig);
+    return !!exactTarget && (exactTarget === resolvedPath || toSpecifierPath(exactTarget, '') === resolvedPath);
+}
+
+// True for paths inside `dirPath`, but not for siblings sharing its prefix (/src vs /src2)
+function isInsideDirectory(filePath: string, dirPath: string): boolean {
+    const relativePath = relative(resolve(dirPath), filePath);
+    return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+}
+
+function findOwningDirectory(filePath: string): DirectoryConfig | undefined {
+    return config.directories
+        .filter((dir) => isInsideDirectory(filePath, dir.path))
+        .sort((a, b) => resolve(b.path).length - resolve(a.path).length)[0];
+}
+
+function getDirectoryAliases(dir: DirectoryConfig | undefined): AliasMap {
+    return { ...config.aliases, ...dir?.aliases };
+}
+
+// Directory aliases are only suggested when the file's own compiler options resolve the result;
+// shared aliases are often unknown to the compiler and are taken as configured
+function canUseAlias(resolvedPath: string, alias: string, aliases: AliasMap, file: SourceFile): boolean {
+    if (config.aliases[alias] === aliases[alias]) return true;
+    const aliasPath = convertToAliasPath(resolvedPath, alias, aliases);
+    return !!aliasPath && !!resolveModuleFile(aliasPath, file);
+}
+
+function findMatchingAlias(resolvedPath: string | null, aliases: AliasMap, file: SourceFile): string | null {
     if (!resolvedPath) return null;
-    const possibleAliases = Object.entries(config.aliases)
-        .filter(([_, config]) => resolvedPath.startsWith(config.path))
-        .map(([alias]) => alias)
-        .sort((a, b) => b.length - a.length);
-    return possibleAliases[0] || null;
+    // An alias mapped to exactly this module beats any directory alias containing it
+    const possibleAliases = Object.entries(aliases)
+        .filter(
+            ([_, config]) =>
+                matchesExactAlias(resolvedPath, config) ||
+                (config.wildcard !== false && resolvedPath.startsWith(config.path)),
+        )
+        .map(([alias, config]) => ({ alias, exact: matchesExactAlias(resolvedPath, config) }))
+        .sort((a, b) => Number(b.exact) - Number(a.exact) || b.alias.length - a.alias.length)
+        .filter(({ alias }) => canUseAlias(resolvedPath, alias, aliases, file));
+    return possibleAliases[0]?.alias || null;
 }
 
-function convertToAliasPath(resolvedPath: string, alias: string): string | null {
-    const aliasConfig = config.aliases[alias];
+function convertToAliasPath(resolvedPath: string, alias: string, aliases: AliasMap): string | null {
+    const aliasConfig = aliases[alias];
     if (!aliasConfig) return null;
+    if (matchesExactAlias(resolvedPath, aliasConfig)) return alias;
+    if (aliasConfig.wildcard === false) return null;
     const relativePart = relative(aliasConfig.path, resolvedPath).replace(/\\/g, '/');
     if (relativePart.startsWith('..')) return null;
-    return `${alias}/${relativePart}`;
+    return relativePart ? `${alias}/${relativePart}` : alias;
 }
 
-function findCommentedImports(file: SourceFile): Array<{ text: string; line: number; commentType: string }> {
-    const commentedImports: Array<{ text: string; line: number; commentType: string }> = [];
-    const fullText = file.getFullText();
-    const lines = fullText.split('\n');
-    lines.forEach((lineText, index) => {
-        const trimmed = lineText.trim();
-        if (
-            (trimmed.startsWith('//') || trimmed.startsWith('#')) &&
-            trimmed.includes('import') &&
-            trimmed.includes('from')
-        ) {
-            commentedImports.push({
-                text: trimmed,
-                line: index + 1,
-                commentType: trimmed.startsWith('//') ? 'single-line' : 'hash',
-            });
-        }
-    });
-    file.getDescendantsOfKind(SyntaxKind.MultiLineCommentTrivia).forEach((comment) => {
-        const commentText = comment.getText();
-        if (commentText.includes('import') && commentText.includes('from')) {
-            const lines = commentText.split('\n').map((l) => l.replace(/^\s*\*+\s*/, '').trim());
-            const importLine = lines.find((l) => l.startsWith('import'));
-            if (importLine) {
-                commentedImports.push({
-                    text: importLine,
-                    line: comment.getStartLineNumber(),
-                    commentType: 'multi-line',
-                });
-            }
+interface ModuleIndexEntry {
+    filePath: string;
+    modulePath: string;
+    name: string;
+    exports: Set<string>;
+}
+
+const moduleIndexes = new WeakMap<Project, ModuleIndexEntry[]>();
+
+// `src/Button/index.ts` and `src/Button.tsx` are both the module "Button"
+function getModuleName(modulePath: string): string {
+    const name = basename(stripExtension(modulePath));
+    return name === 'index' ? basename(dirname(modulePath)) : name;
+}
+
+function getModuleIndex(project: Project): ModuleIndexEntry[] {
+    let index = moduleIndexes.get(project);
+    if (!index) {
+        index = project
+            .getSourceFiles()
+            .filter((file) => !file.getFilePath().includes('/node_modules/'))
+            .map((file) => ({
+                filePath: file.getFilePath(),
+                modulePath: stripExtension(file.getFilePath()),
+                name: getModuleName(file.getFilePath()),
+                exports: new Set(file.getExportedDeclarations().keys()),
+            }));
+        moduleIndexes.set(project, index);
+    }
+    return index;
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
         }
-    });
-    return commentedImports;
+        previous = current;
+    }
+    return previous[b.length];
 }
 
-function confirmFix(issue: ImportIssue): boolean {
-    console.log(chalk.red(`\nIssue in ${issue.file}:${issue.line}`));
-    console.log(chalk.white(`  Import: ${issue.importPath}`));
-    console.log(chalk.yellow(`  Problem: ${issue.issue}`));
-    console.log(chalk.cyan(`  Suggested fix: ${issue.suggestion || 'No suggestion available'}`));
-    const options = issue.suggestion ? ['Apply fix', 'Skip'] : ['Skip'];
+function similarity(a: string, b: string): number {
+    return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
+function getImportedNames(site: ModuleSpecifierSite): string[] {
+    if (!site.importDecl) return [];
+    const names = site.importDecl.getNamedImports().map((specifier) => specifier.getName());
+    return site.importDecl.getDefaultImport() ? ['default', ...names] : names;
+}
+
+// Ranks project modules against the path an unresolved specifier pointed at, by module name,
+// path edit distance and how many of the imported names each candidate exports
+function findSimilarModule(
+    targetPath: string,
+    importedNames: string[],
+    file: SourceFile,
+): { filePath: string; reasons: string[] } | null {
+    const wantedName = getModuleName(targetPath);
+    const wantedPath = relative(process.cwd(), stripExtension(targetPath));
+    let best: { filePath: string; reasons: string[]; score: number } | null = null;
+
+    for (const entry of getModuleIndex(file.getProject())) {
+        if (entry.filePath === file.getFilePath()) continue;
+        const nameScore =
+            entry.name === wantedName ? 1 : 0.95 * similarity(entry.name.toLowerCase(), wantedName.toLowerCase());
+        if (nameScore < 0.6) continue;
+        const pathScore = similarity(wantedPath, relative(process.cwd(), entry.modulePath));
+        const exported = importedNames.filter((name) => entry.exports.has(name));
+        const score = importedNames.length
+            ? 0.45 * nameScore + 0.25 * pathScore + (0.3 * exported.length) / importedNames.length
+            : 0.6 * nameScore + 0.4 * pathScore;
+        if (score < 0.6 || (best && best.score >= score)) continue;
+
+        const reasons = [nameScore === 1 ? 'same module name' : 'similar module name'];
+        if (exported.length) reasons.push(`exports ${exported.join(', ')}`);
+        best = { filePath: entry.filePath, reasons, score };
+    }
+    return best && { filePath: best.filePath, reasons: best.reasons };
+}
+
+function suggestSimilarModule(
+    targetPath: string,
+    site: ModuleSpecifierSite,
+    file: SourceFile,
+    aliases: AliasMap,
+): { specifier: string; reason: string } | null {
+    const match = findSimilarModule(targetPath, getImportedNames(site), file);
+    if (!match) return null;
+    const modulePath = toSpecifierPath(match.filePath, site.specifier);
+    const alias = findMatchingAlias(modulePath, aliases, file);
+    const specifier =
+        (alias && convertToAliasPath(modulePath, alias, aliases)) ||
+        toRelativeSpecifier(file.getFilePath(), modulePath);
+    return { specifier, reason: match.reasons.join(', ') };
+}
+
+interface ImportBinding {
+    imported: string;
+    local: string;
+    isTypeOnly?: boolean;
+}
+
+function describeImportMapping(mapping: ImportMapping | undefined): string {
+    if (!mapping) return '';
+    const pairs = Object.entries(mapping).map(([from, to]) => `${from} → ${to}`);
+    return pairs.length ? ` (${pairs.join(', ')})` : '';
+}
+
+// Rewrites the bindings of an import declaration according to `mapping` and renames every
+// reference to a binding whose local name changes. Returns a description of each rewrite.
+function rewriteImportBindings(importDecl: ImportDeclaration, mapping: ImportMapping): string[] {
+    const file = importDecl.getSourceFile();
+    const bindings: Array<ImportBinding & { node: Identifier; aliased: boolean }> = [];
+    const defaultImport = importDecl.getDefaultImport();
+    if (defaultImport) {
+        bindings.push({ imported: 'default', local: defaultImport.getText(), node: defaultImport, aliased: false });
+    }
+    const namespaceImport = importDecl.getNamespaceImport();
+    if (namespaceImport) {
+        bindings.push({ imported: '*', local: namespaceImport.getText(), node: namespaceImport, aliased: false });
+    }
+    for (const specifier of importDecl.getNamedImports()) {
+        const aliasNode = specifier.getAliasNode();
+        bindings.push({
+            imported: specifier.getName(),
+            local: aliasNode?.getText() ?? specifier.getName(),
+            isTypeOnly: specifier.isTypeOnly(),
+            node: aliasNode ?? specifier.getNameNode(),
+            aliased: !!aliasNode,
+        });
+    }
+
+    const changes: string[] = [];
+    const renames: Array<{ newName: string; references: Node[] }> = [];
+    // Names already used in the file; renaming to one of them could capture or shadow it
+    const usedNames = new Set(
+        file.getDescendantsOfKind(SyntaxKind.Identifier).map((identifier) => identifier.getText()),
+    );
+    const rewritten: ImportBinding[] = bindings.map((binding) => {
+        const target = mapping[binding.imported];
+        if (!target || target === binding.imported) return binding;
+        changes.push(`${binding.imported} → ${target}`);
+
+        // Named targets take over the local name unless the user chose an explicit alias, or the
+        // name is taken, in which case they are imported as `target as local`
+        const keepsLocal = target === 'default' || target === '*' || binding.aliased || usedNames.has(target);
+        const local = keepsLocal ? binding.local : target;
+        if (local !== binding.local) {
+            usedNames.add(local);
+            const [start, end] = [importDecl.getStart(), importDecl.getEnd()];
+            const references = binding.node
+                .findReferencesAsNodes()
+                .filter((ref) => ref.getSourceFile() === file && (ref.getStart() < start || ref.getStart() >= end));
+            renames.push({ newName: local, references });
+        }
+        return { imported: target, local, isTypeOnly: binding.isTypeOnly };
+    });
+    if (!changes.length) return changes;
+
+    const defaultBinding = rewritten.find((b) => b.imported === 'default');
+    const namespaceBinding = rewritten.find((b) => b.imported === '*');
+    const namedBindings = rewritten
+        .filter((b) => b.imported !== 'default' && b.imported !== '*')
+        .map((b) => ({
+            name: b.imported,
+            alias: b.local !== b.imported ? b.local : undefined,
+            isTypeOnly: b.isTypeOnly,
+        }));
+
+    importDecl.removeNamedImports();
+    importDecl.removeNamespaceImport();
+    importDecl.removeDefaultImport();
+    if (defaultBinding) importDecl.setDefaultImport(defaultBinding.local);
+    if (namespaceBinding) {
+        importDecl.setNamespaceImport(namespaceBinding.local);
+        // A declaration cannot hold both a namespace and named imports
+        if (namedBindings.length) {
+            file.insertImportDeclaration(importDecl.getChildIndex() + 1, {
+                moduleSpecifier: importDecl.getModuleSpecifierValue(),
+                namedImports: namedBindings,
+            });
+        }
+    } else if (namedBindings.length) {
+        importDecl.addNamedImports(namedBindings);
+    }
+
+    for (const { newName, references } of renames) {
+        for (const ref of references) {
+            if (ref.wasForgotten()) continue;
+            const parent = ref.getParent();
+            if (Node.isShorthandPropertyAssignment(parent)) {
+                parent.replaceWithText(`${ref.getText()}: ${newName}`);
+            } else {
+                ref.replaceWithText(newName);
+            }
+        }
+    }
+    return changes;
+}
+
+// One line of a commented-out import: `prefix` is the file text kept before it when uncommenting
+// (the line break and indentation), `body` the code with the comment markers removed
+interface CommentLine {
+    prefix: string;
+    body: string;
+    line: number;
+}
+
+interface CommentedImport {
+    // The import statement without comment markers, on one line
+    text: string;
+    importPath: string;
+    line: number;
+    commentType: 'single-line' | 'multi-line';
+    // Range in the file that is replaced when the import is uncommented or pruned
+    start: number;
+    end: number;
+    lines: CommentLine[];
+    // Position of the module specifier (without quotes) in `lines`
+    specifier: { line: number; start: number; end: number };
+    bindings: string[];
+    // false when the comment holds more than this import, so it can only be reported
+    rewritable: boolean;
+}
+
+// Every comment in the file, taken from the scanner's comment ranges around each token
+function getCommentRanges(file: SourceFile): ts.CommentRange[] {
+    const sourceFile = file.compilerNode;
+    const text = sourceFile.getFullText();
+    const ranges = new Map<number, ts.CommentRange>();
+    const visit = (node: ts.Node) => {
+        // JSX text is not trivia, so it cannot contain comments
+        if (node.kind === SyntaxKind.JsxText) return;
+        for (const range of [
+            ...(ts.getLeadingCommentRanges(text, node.pos) || []),
+            ...(ts.getTrailingCommentRanges(text, node.end) || []),
+        ]) {
+            ranges.set(range.pos, range);
+        }
+        if (node.kind < SyntaxKind.FirstJSDocNode || node.kind > SyntaxKind.LastJSDocNode) {
+            node.getChildren(sourceFile).forEach(visit);
+        }
+    };
+    visit(sourceFile);
+    return [...ranges.values()].sort((a, b) => a.pos - b.pos);
+}
+
+// Parses import statements out of commented lines. An import has to start a line of the comment,
+// which keeps prose such as "// we import this from the API" out.
+function parseCommentedImports(
+    lines: CommentLine[],
+    commentType: CommentedImport['commentType'],
+    range: (first: number, last: number) => { start: number; end: number },
+    wholeComment: boolean,
+): CommentedImport[] {
+    const found: CommentedImport[] = [];
+    for (let index = 0; index < lines.length; index++) {
+        if (!/^\s*import[\s{*'"]/.test(lines[index].body)) continue;
+        const candidate = lines
+            .slice(index)
+            .map((line, i) => (i === 0 ? { ...line, prefix: '', body: line.body.trimStart() } : line));
+        const snippet = ts.createSourceFile(
+            'commented.ts',
+            candidate.map((line) => line.body).join('\n'),
+            ts.ScriptTarget.Latest,
+            true,
+            ts.ScriptKind.TSX,
+        );
+        const statement = snippet.statements[0];
+        if (!statement || !ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+            continue;
+        }
+        const last = index + snippet.getLineAndCharacterOfPosition(statement.getEnd()).line;
+        const specifierStart = snippet.getLineAndCharacterOfPosition(statement.moduleSpecifier.getStart(snippet) + 1);
+        const clause = statement.importClause;
+        const namedBindings = clause?.namedBindings;
+        const bindings = [
+            ...(clause?.name ? [clause.name.text] : []),
+            ...(namedBindings && ts.isNamespaceImport(namedBindings) ? [namedBindings.name.text] : []),
+            ...(namedBindings && ts.isNamedImports(namedBindings)
+                ? namedBindings.elements.map((el) => el.name.text)
+                : []),
+        ];
+        const trailing = lines[last].body.slice(snippet.getLineAndCharacterOfPosition(statement.getEnd()).character);
+        const others = [...lines.slice(0, index), ...lines.slice(last + 1)].some((line) => line.body.trim());
+        found.push({
+            text: statement.getText(snippet).replace(/\s*\n\s*/g, ' '),
+            importPath: statement.moduleSpecifier.text,
+            line: lines[index].line,
+            commentType,
+            ...range(index, last),
+            lines: candidate.slice(0, last - index + 1),
+            specifier: {
+                line: specifierStart.line,
+                start: specifierStart.character,
+                end: specifierStart.character + statement.moduleSpecifier.text.length,
+            },
+            bindings,
+            rewritable: (!trailing.trim() || /^\s*\/[/*]/.test(trailing)) && !(wholeComment && others),
+        });
+        index = last;
+    }
+    return found;
+}
+
+function findCommentedImports(file: SourceFile): CommentedImport[] {
+    const text = file.getFullText();
+    const lineOf = (pos: number) => file.compilerNode.getLineAndCharacterOfPosition(pos).line + 1;
+    // Only comments that start their line can be uncommented without touching code
+    const startsLine = (range: ts.CommentRange) => /(^|\n)[ \t]*$/.test(text.slice(0, range.pos));
+    // Imports are only valid at the top level, so commented ones inside statements are just reported
+    const statements = file.getStatements();
+    const isNested = (pos: number) =>
+        statements.some((statement) => statement.getStart() < pos && pos < statement.getEnd());
+    const commentedImports: CommentedImport[] = [];
+    const addImports = (found: CommentedImport[]) =>
+        commentedImports.push(
+            ...found.map((commented) => (isNested(commented.start) ? { ...commented, rewritable: false } : commented)),
+        );
+
+    let run: ts.CommentRange[] = [];
+    const flushRun = () => {
+        if (!run.length) return;
+        const comments = run;
+        const lines = comments.map((range, i) => ({
+            prefix: i === 0 ? '' : text.slice(comments[i - 1].end, range.pos),
+            body: text.slice(range.pos + 2, range.end).replace(/^ /, ''),
+            line: lineOf(range.pos),
+        }));
+        addImports(
+            parseCommentedImports(
+                lines,
+                'single-line',
+                (first, last) => ({ start: comments[first].pos, end: comments[last].end }),
+                false,
+            ),
+        );
+        run = [];
+    };
+
+    for (const range of getCommentRanges(file)) {
+        const commentText = text.slice(range.pos, range.end);
+        if (range.kind === SyntaxKind.SingleLineCommentTrivia) {
+            // Triple-slash directives are not commented code
+            if (commentText.startsWith('///') || !startsLine(range)) {
+                flushRun();
+                continue;
+            }
+            const previous = run[run.length - 1];
+            if (previous && !/^[ \t]*\r?\n[ \t]*$/.test(text.slice(previous.end, range.pos))) flushRun();
+            run.push(range);
+            continue;
+        }
+        flushRun();
+        if (!startsLine(range) || !commentText.includes('import')) continue;
+
+        // Block comments keep their inner indentation, minus a leading ` * ` column when every line has one
+        const indent = /[ \t]*$/.exec(text.slice(0, range.pos))![0];
+        const inner = commentText.slice(2, -2).split('\n');
+        const starred = inner.slice(1).every((line) => /^\s*\*/.test(line) || !line.trim());
+        const bodies = inner.map((line, i) => {
+            if (i === 0) return line.replace(/^\*?\s?/, '');
+            return starred ? line.replace(/^\s*\*+ ?/, '') : line;
+        });
+        const firstLine = lineOf(range.pos);
+        const lines = bodies.map((body, i) => ({
+            prefix: i === 0 ? '' : `\n${starred ? indent : ''}`,
+            body: body.replace(/\s+$/, ''),
+            line: firstLine + i,
+        }));
+        addImports(parseCommentedImports(lines, 'multi-line', () => ({ start: range.pos, end: range.end }), true));
+    }
+    flushRun();
+    return commentedImports;
+}
+
+function describeUncommented(commented: CommentedImport, importPath: string): string {
+    return uncommentImport(commented, importPath)
+        .trim()
+        .replace(/\s*\n\s*/g, ' ');
+}
+
+// The text that replaces a commented import, with its specifier changed to `importPath`
+function uncommentImport(commented: CommentedImport, importPath: string): string {
+    return commented.lines
+        .map((line, i) => {
+            const body =
+                i === commented.specifier.line
+                    ? line.body.slice(0, commented.specifier.start) +
+                      importPath +
+                      line.body.slice(commented.specifier.end)
+                    : line.body;
+            return line.prefix + body;
+        })
+        .join('');
+}
+
+function confirmFix(issue: ImportIssue): boolean {
+    return !prompter || prompter.confirmFix(issue);
+}
+
+function promptForFix(issue: ImportIssue): boolean {
+    logger.log(chalk.red(`\nIssue in ${issue.file}:${issue.line}`));
+    logger.log(chalk.white(`  Import: ${issue.importPath}`));
+    logger.log(chalk.yellow(`  Problem: ${issue.issue}`));
+    logger.log(chalk.cyan(`  Suggested fix: ${issue.suggestion || 'No suggestion available'}`));
+    const options = issue.suggestion ? ['Apply fix', 'Skip'] : ['Skip'];
     const question = chalk.white(
         `Choose an option:\n${options.map((opt, i) => `  ${i + 1}. ${opt}`).join('\n')}\nEnter number (1-${options.length}): `,
     );
@@ -356,327 +1648,3001 @@ function confirmFix(issue: ImportIssue): boolean {
     return choice === '1';
 }
 
-async function repocheck() {
-    const communitySolutions = await fetchCommunitySolutions();
-    for (const dir of config.directories) {
-        console.log(chalk.blue(`\nStarting repocheck for ${dir.path}`));
-        console.log(chalk.gray(`Auto-fix: ${AUTO_FIX}${INTERACTIVE ? ' (interactive)' : ''}`));
-        console.log(chalk.gray(`Report will be saved to ${dir.report}`));
+function createFilePatch(relativeFilePath: string, before: string, after: string): string {
+    const path = relativeFilePath.replace(/\\/g, '/');
+    const patch = createTwoFilesPatch(`a/${path}`, `b/${path}`, before, after);
+    // git apply expects a `diff --git` header where jsdiff writes its separator line
+    return patch.replace(/^=+\n/, `diff --git a/${path} b/${path}\n`);
+}
 
-        const project = new Project({ tsConfigFilePath: dir.tsconfig });
-        let files = project.getSourceFiles(`${dir.path}/**/*.{ts,tsx}`);
-        if (files.length === 0) {
-            console.log(chalk.yellow(`No .ts/.tsx files found in ${dir.path}. Trying broader pattern...`));
-            files = project.getSourceFiles(`${dir.path}/**/*.{ts,tsx,js,jsx}`);
+function printPatch(patch: string) {
+    for (const line of patch.trimEnd().split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff --git')) {
+            logger.log(chalk.bold(line));
+        } else if (line.startsWith('@@')) {
+            logger.log(chalk.cyan(line));
+        } else if (line.startsWith('+')) {
+            logger.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+            logger.log(chalk.red(line));
+        } else {
+            logger.log(chalk.gray(line));
         }
-        console.log(chalk.cyan(`Found ${files.length} files to process`));
+    }
+}
 
-        const issues: ImportIssue[] = [];
+function git(args: string[]): string {
+    return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
 
-        for (const file of files) {
-            const filePath = file.getFilePath();
-            const relativeFilePath = relative(process.cwd(), filePath);
-            console.log(chalk.white(`\nProcessing: ${relativeFilePath}`));
+const SOURCE_FILE_PATTERN = /\.[mc]?[jt]sx?$/;
 
-            const imports = file.getImportDeclarations();
-            let fileModified = false;
+// Files staged in the index (`--changed`) and/or changed since a ref (`--since <ref>`), including
+// deleted ones so their importers get rechecked. Returns null when checking everything.
+function getChangedPaths(): Set<string> | null {
+    if (!runOptions.changedOnly && !runOptions.since) return null;
+    let root: string;
+    const names: string[] = [];
+    try {
+        root = git(['rev-parse', '--show-toplevel']);
+        if (runOptions.changedOnly) names.push(...git(['diff', '--cached', '--name-only', '--no-renames']).split('\n'));
+        if (runOptions.since) {
+            names.push(...git(['diff', '--name-only', '--no-renames', runOptions.since, '--']).split('\n'));
+            names.push(...git(['ls-files', '--others', '--exclude-standard']).split('\n'));
+        }
+    } catch (error: unknown) {
+        // execFileSync failures carry git's own explanation in `stderr`
+        const stderr = error instanceof Error && 'stderr' in error ? String(error.stderr).trim() : '';
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not list changed files: ${stderr || message}`);
+    }
+    return new Set(names.filter(Boolean).map((name) => toUri(resolve(root, name))));
+}
 
-            for (const importDecl of imports) {
-                const importPath = importDecl.getModuleSpecifierValue();
-                const line = importDecl.getStartLineNumber();
+function listSourceFiles(dir: string): string[] {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : listSourceFiles(fullPath);
+        return SOURCE_FILE_PATTERN.test(entry.name) ? [fullPath] : [];
+    });
+}
 
-                if (!importPath.startsWith('.') && !importPath.startsWith('@')) continue;
-                if (importPath.startsWith('@') && !Object.keys(config.aliases).some((a) => importPath.startsWith(a))) {
-                    const rootPkg = importPath.split('/')[0];
-                    if (dir.dependencies?.[rootPkg] || existsSync(resolve('node_modules', rootPkg))) continue;
-                }
+// Cheap text scan so directories without changed files or likely importers never build a Project
+function mayBeAffected(dir: DirectoryConfig, changedFiles: Set<string>): boolean {
+    const dirPath = toUri(resolve(dir.path)) + '/';
+    if ([...changedFiles].some((file) => file.startsWith(dirPath))) return true;
+    const changedNames = [...changedFiles].map(getModuleName);
+    return listSourceFiles(dir.path).some((file) => {
+        const text = readFileSync(file, 'utf-8');
+        return changedNames.some((name) => text.includes(name));
+    });
+}
 
-                console.log(chalk.gray(`  Checking import: ${importPath} (line ${line})`));
-                const resolvedPath = resolveImportPath(importPath, file);
+function importsChangedFile(specifiers: CachedSpecifier[], changedFiles: Set<string>): boolean {
+    const changedNames = new Set([...changedFiles].map(getModuleName));
+    return specifiers.some(({ specifier, resolved }) =>
+        // Deleted or renamed modules no longer resolve, so match those importers by module name
+        resolved ? changedFiles.has(resolved) : changedNames.has(getModuleName(specifier)),
+    );
+}
 
-                const specialCase = Object.entries(config.specialCases).find(([key]) =>
-                    config.specialCases[key].prefixOnly ? importPath.startsWith(key) : importPath === key,
-                );
-                if (specialCase) {
-                    const [key, special] = specialCase;
-                    let suggestion: string | null = null;
-                    let newImportPath: string | undefined;
-                    const communityMatch = communitySolutions.find((sol) => sol.from === importPath);
-
-                    if (special.action === 'rename') {
-                        newImportPath = special.prefixOnly ? importPath.replace(key, special.value!) : special.value;
-                        suggestion = `Rename to: import ... from '${newImportPath}'`;
-                    } else if (special.action === 'replace-method') {
-                        newImportPath = special.value;
-                        suggestion =
-                            communityMatch?.description ||
-                            `Replace with: import { useUser } from '${newImportPath}' (adjust usage accordingly)`;
-                    } else {
-                        suggestion = 'Excluded from checks';
-                    }
+const CACHE_DIR = join('.repofix', 'cache');
+const CACHE_VERSION = 2;
 
-                    const issue: ImportIssue = {
-                        file: relativeFilePath,
-                        line,
-                        importPath,
-                        issue: `Special case: ${special.action}`,
-                        suggestion,
-                    };
+interface CachedSpecifier {
+    specifier: string;
+    kind: ModuleSpecifierKind;
+    line: number;
+    resolved: string | null;
+    typeOnly?: boolean;
+}
 
-                    if (AUTO_FIX && newImportPath && special.action !== 'exclude') {
-                        if (INTERACTIVE && !confirmFix(issue)) {
-                            issue.userChoice = 'Skipped';
-                            console.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
-                        } else {
-                            importDecl.setModuleSpecifier(newImportPath);
-                            issue.fixed = true;
-                            fileModified = true;
-                            console.log(chalk.green(`  Fixed: Changed to '${newImportPath}'`));
-                        }
-                    }
-                    issues.push(issue);
-                    continue;
-                }
+interface CachedFile {
+    hash: string;
+    specifiers: CachedSpecifier[];
+    issues: ImportIssue[];
+}
 
-                if (importPath.startsWith('.')) {
-                    const suggestedAlias = findMatchingAlias(resolvedPath);
-                    if (suggestedAlias) {
-                        const relativeImportPath = convertToAliasPath(resolvedPath, suggestedAlias);
-                        const issue: ImportIssue = {
-                            file: relativeFilePath,
-                            line,
-                            importPath,
-                            issue: `Relative import should use alias '${suggestedAlias}'`,
-                            suggestion: `Change to: import ... from '${relativeImportPath}'`,
-                        };
-
-                        if (AUTO_FIX && relativeImportPath) {
-                            if (INTERACTIVE && !confirmFix(issue)) {
-                                issue.userChoice = 'Skipped';
-                                console.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
-                            } else {
-                                importDecl.setModuleSpecifier(relativeImportPath);
-                                issue.fixed = true;
-                                fileModified = true;
-                                console.log(chalk.green(`  Fixed: Changed to '${relativeImportPath}'`));
-                            }
-                        }
-                        issues.push(issue);
-                    } else if (!resolvedPath) {
-                        issues.push({
-                            file: relativeFilePath,
-                            line,
-                            importPath,
-                            issue: `Relative import '${importPath}' cannot be resolved`,
-                            suggestion: `File not found at ${resolve(dirname(filePath), importPath)}`,
-                        });
-                    }
-                } else if (importPath.startsWith('@')) {
-                    const aliasRoot = importPath.split('/')[0];
-                    const fullAlias = importPath.includes('/')
-                        ? importPath.split('/').slice(0, 2).join('/')
-                        : aliasRoot;
-
-                    if (!config.aliases[fullAlias] && !config.aliases[aliasRoot]) {
-                        const rootPkg = aliasRoot;
-                        const isSpecialCaseRoot = Object.keys(config.specialCases).some((key) =>
-                            config.specialCases[key].prefixOnly ? key.startsWith(rootPkg) : key === rootPkg,
-                        );
-                        const suggestion =
-                            isSpecialCaseRoot || dir.dependencies?.[rootPkg]
-                                ? null
-                                : `Module '${rootPkg}' not found. Run: bun add ${rootPkg}`;
-                        issues.push({
-                            file: relativeFilePath,
-                            line,
-                            importPath,
-                            issue: `Unknown alias '${fullAlias}' or '${aliasRoot}'`,
-                            suggestion: suggestion || 'Verify alias in tsconfig.json or use relative path',
-                        });
-                    } else {
-                        const expectedPath = config.aliases[fullAlias]?.path || config.aliases[aliasRoot]?.path;
-                        if (resolvedPath && expectedPath && !resolvedPath.startsWith(expectedPath)) {
-                            const suggestedAlias = findMatchingAlias(resolvedPath);
-                            const relativeImportPath = suggestedAlias
-                                ? convertToAliasPath(resolvedPath, suggestedAlias)
-                                : null;
-                            const issue: ImportIssue = {
-                                file: relativeFilePath,
-                                line,
-                                importPath,
-                                issue: `Alias '${importPath}' resolves incorrectly`,
-                                suggestion: relativeImportPath
-                                    ? `Change to: import ... from '${relativeImportPath}'`
-                                    : `Verify path for '${importPath}'`,
-                            };
-
-                            if (AUTO_FIX && relativeImportPath) {
-                                if (INTERACTIVE && !confirmFix(issue)) {
-                                    issue.userChoice = 'Skipped';
-                                } else {
-                                    importDecl.setModuleSpecifier(relativeImportPath);
-                                    issue.fixed = true;
-                                    fileModified = true;
-                                    console.log(chalk.green(`  Fixed: Changed to '${relativeImportPath}'`));
-                                }
-                            }
-                            issues.push(issue);
-                        }
-                    }
-                }
-            }
+// Per-directory analysis results. `key` covers everything besides a file's own content that can
+// change its issues, so a key mismatch throws away the whole cache for that directory.
+interface AnalysisCache {
+    version: number;
+    key: string;
+    fileList: string[];
+    files: { [relativePath: string]: CachedFile };
+}
 
-            const commentedImports = findCommentedImports(file);
-            for (const { text, line, commentType } of commentedImports) {
-                console.log(chalk.gray(`  Found commented import: ${text} (line ${line}, type: ${commentType})`));
-                const importMatch = text.match(/import\s+.*\s+from\s+['"]([^'"]+)['"]/);
-                if (!importMatch) {
-                    issues.push({
-                        file: relativeFilePath,
-                        line,
-                        importPath: text,
-                        issue: `Invalid commented import syntax`,
-                        suggestion: 'Manually review and fix',
-                        commented: true,
-                    });
-                    continue;
-                }
+function hashText(text: string): string {
+    return createHash('sha1').update(text).digest('hex');
+}
 
-                const importPath = importMatch[1];
-                const resolvedPath = resolveImportPath(importPath, file);
-                const specialCase = Object.entries(config.specialCases).find(([key]) =>
-                    config.specialCases[key].prefixOnly ? importPath.startsWith(key) : importPath === key,
-                );
+function getCachePath(dir: DirectoryConfig): string {
+    return join(CACHE_DIR, `${hashText(resolve(dir.path))}.json`);
+}
 
-                if (specialCase) {
-                    const [key, special] = specialCase;
-                    let suggestion: string | null = null;
-                    let newImportPath: string | undefined;
-                    const communityMatch = communitySolutions.find((sol) => sol.from === importPath);
-
-                    if (special.action === 'rename') {
-                        newImportPath = special.prefixOnly ? importPath.replace(key, special.value!) : special.value;
-                        suggestion = `Uncomment and rename to: ${text.replace(/^\s*\/\/+\s*|^#+\s*|\/\*|\*\//g, '').replace(importPath, newImportPath)}`;
-                    } else if (special.action === 'replace-method') {
-                        newImportPath = special.value;
-                        suggestion =
-                            communityMatch?.description ||
-                            `Uncomment and replace with: import { useUser } from '${newImportPath}' (adjust usage accordingly)`;
-                    } else {
-                        suggestion = 'Excluded from checks';
-                    }
+// Where the dependencies of `dir` are declared and installed
+function getDependencyRoots(dir: DirectoryConfig): string[] {
+    const packageJson = findPackageJson(dir);
+    return [...new Set([packageJson ? dirname(packageJson) : process.cwd(), process.cwd()])];
+}
 
-                    const issue: ImportIssue = {
-                        file: relativeFilePath,
-                        line,
-                        importPath,
-                        issue: `Commented special case: ${special.action}`,
-                        suggestion,
-                        commented: true,
-                    };
+// Whether one of the package.json files or lockfiles the dependency audit of `dir` reads has changed
+function haveDependenciesChanged(dir: DirectoryConfig, changedPaths: Set<string>): boolean {
+    const files = ['package.json', ...LOCKFILES.map(([file]) => file)];
+    return getDependencyRoots(dir).some((root) => files.some((file) => changedPaths.has(toUri(join(root, file)))));
+}
 
-                    if (AUTO_FIX && newImportPath && special.action !== 'exclude') {
-                        let shouldFix = !INTERACTIVE;
-                        if (INTERACTIVE) shouldFix = confirmFix(issue);
-                        if (shouldFix) {
-                            const fullText = file.getFullText();
-                            const lines = fullText.split('\n');
-                            lines[line - 1] = text
-                                .replace(/^\s*\/\/+\s*|^#+\s*|\/\*|\*\//g, '')
-                                .replace(importPath, newImportPath);
-                            file.replaceWithText(lines.join('\n'));
-                            issue.fixed = true;
-                            fileModified = true;
-                            console.log(chalk.green(`  Fixed: Uncommented and changed to '${newImportPath}'`));
-                        }
-                    }
-                    issues.push(issue);
-                    continue;
-                }
+// package.json, lockfiles and node_modules where dependencies are looked up, so that installing
+// or removing a package invalidates cached resolutions
+function getInstallState(dir: DirectoryConfig): string[] {
+    return getDependencyRoots(dir).flatMap((root) => [
+        ...['package.json', ...LOCKFILES.map(([file]) => file)]
+            .filter((file) => existsSync(join(root, file)))
+            .map((file) => `${join(root, file)}:${hashText(readFileSync(join(root, file), 'utf-8'))}`),
+        ...(existsSync(join(root, 'node_modules'))
+            ? [`${join(root, 'node_modules')}:${statSync(join(root, 'node_modules')).mtimeMs}`]
+            : []),
+    ]);
+}
 
-                if (!resolvedPath) {
-                    const rootPkg = importPath.split('/')[0].startsWith('@')
-                        ? importPath.split('/').slice(0, 2).join('/')
-                        : importPath.split('/')[0];
-                    const isSpecialCaseRoot = Object.keys(config.specialCases).some((key) =>
-                        config.specialCases[key].prefixOnly ? key.startsWith(rootPkg) : key === rootPkg,
-                    );
-                    const suggestion =
-                        isSpecialCaseRoot || dir.dependencies?.[rootPkg]
-                            ? 'Uncomment to use'
-                            : `Module '${rootPkg}' not found. Run: bun add ${rootPkg}`;
-                    issues.push({
-                        file: relativeFilePath,
-                        line,
-                        importPath,
-                        issue: `Commented import '${importPath}' cannot be resolved`,
-                        suggestion,
-                        commented: true,
-                    });
-                    continue;
-                }
+function getCacheKey(
+    dir: DirectoryConfig,
+    communitySolutions: CommunitySolution[],
+    workspacePackages: WorkspacePackage[],
+): string {
+    const tsconfig = loadTsconfig(dir.tsconfig);
+    return hashText(
+        JSON.stringify({
+            tsconfig: tsconfig && { options: tsconfig.options, fileNames: tsconfig.fileNames },
+            filesOnDisk: listSourceFiles(dir.path),
+            directories: config.directories,
+            aliases: config.aliases,
+            specialCases: config.specialCases,
+            style: config.style,
+            // Special case conditions depend on what is installed
+            conditionVersions: Object.values(config.specialCases).flatMap((special) =>
+                [...Object.keys(special.versions || {}), getMissingTarget(special, dir)].map(
+                    (name) => name && [name, getDependencyVersion(dir, name)],
+                ),
+            ),
+            installState: getInstallState(dir),
+            // Decides whether commented imports are reported as fixable or prunable
+            pruneCommented: runOptions.pruneCommented,
+            communitySolutions,
+            workspacePackages,
+        }),
+    );
+}
 
-                const suggestedAlias = findMatchingAlias(resolvedPath);
-                const newImportPath = suggestedAlias ? convertToAliasPath(resolvedPath, suggestedAlias) : importPath;
-                const issue: ImportIssue = {
-                    file: relativeFilePath,
-                    line,
-                    importPath,
-                    issue: suggestedAlias
-                        ? `Commented import should use alias '${suggestedAlias}'`
-                        : `Commented import has no matching alias`,
-                    suggestion: `Uncomment and change to: ${text.replace(/^\s*\/\/+\s*|^#+\s*|\/\*|\*\//g, '').replace(importPath, newImportPath)}`,
-                    commented: true,
-                };
+function readAnalysisCache(dir: DirectoryConfig, key: string): AnalysisCache | null {
+    const cachePath = getCachePath(dir);
+    if (!runOptions.useCache || !existsSync(cachePath)) return null;
+    try {
+        const cache: AnalysisCache = JSON.parse(readFileSync(cachePath, 'utf-8'));
+        return cache.version === CACHE_VERSION && cache.key === key ? cache : null;
+    } catch {
+        return null;
+    }
+}
 
-                if (AUTO_FIX && newImportPath) {
-                    let shouldFix = !INTERACTIVE;
-                    if (INTERACTIVE) shouldFix = confirmFix(issue);
-                    if (shouldFix) {
-                        const fullText = file.getFullText();
-                        const lines = fullText.split('\n');
-                        lines[line - 1] = text
-                            .replace(/^\s*\/\/+\s*|^#+\s*|\/\*|\*\//g, '')
-                            .replace(importPath, newImportPath);
-                        file.replaceWithText(lines.join('\n'));
-                        issue.fixed = true;
-                        fileModified = true;
-                        console.log(chalk.green(`  Fixed: Uncommented and changed to '${newImportPath}'`));
-                    }
-                }
-                issues.push(issue);
-            }
+function writeAnalysisCache(dir: DirectoryConfig, cache: AnalysisCache) {
+    if (!runOptions.useCache) return;
+    mkdirSync(CACHE_DIR, { recursive: true });
+    writeFileSync(getCachePath(dir), JSON.stringify(cache));
+}
 
-            if (fileModified && AUTO_FIX) {
-                await file.save();
-                console.log(chalk.green(`  Saved changes to ${relativeFilePath}`));
-            }
+function getCachedFile(cache: AnalysisCache | null, relativePath: string, text: string): CachedFile | null {
+    const entry = cache?.files[relativePath];
+    return entry && entry.hash === hashText(text) ? entry : null;
+}
+
+// True when no file checked last time has changed, so the Project does not need to be built
+function isCacheFresh(cache: AnalysisCache): boolean {
+    return cache.fileList.every(
+        (relativePath) =>
+            existsSync(relativePath) && !!getCachedFile(cache, relativePath, readFileSync(relativePath, 'utf-8')),
+    );
+}
+
+function getSpecifierRecords(file: SourceFile): CachedSpecifier[] {
+    return collectModuleSpecifiers(file).map(({ specifier, kind, line, typeOnly }) => {
+        const resolved = resolveModuleFile(specifier, file, kind);
+        return { specifier, kind, line, resolved: resolved && toUri(resolved), typeOnly };
+    });
+}
+
+function getDirectoryFiles(project: Project, dir: DirectoryConfig): SourceFile[] {
+    const files = project.getSourceFiles(`${dir.path}/**/*.{ts,tsx}`);
+    if (files.length) return files;
+    logger.log(chalk.yellow(`No .ts/.tsx files found in ${dir.path}. Trying broader pattern...`));
+    return project.getSourceFiles(`${dir.path}/**/*.{ts,tsx,js,jsx}`);
+}
+
+function getStylePolicy(filePath: string, dir: DirectoryConfig): StylePolicy {
+    return { ...config.style, ...(findOwningDirectory(filePath) ?? dir).style };
+}
+
+// First folder below the owning directory, or '' for files at its root
+function getTopLevelFolder(filePath: string, dir: DirectoryConfig): string | null {
+    const relativePath = relative(resolve(dir.path), filePath);
+    if (relativePath.startsWith('..')) return null;
+    const parts = relativePath.split(/[\\/]/);
+    return parts.length > 1 ? parts[0] : '';
+}
+
+function isSameFolder(filePath: string, targetPath: string, dir: DirectoryConfig): boolean {
+    const owner = findOwningDirectory(filePath) ?? dir;
+    const folder = getTopLevelFolder(filePath, owner);
+    return folder !== null && folder === getTopLevelFolder(targetPath, owner);
+}
+
+function prefersAlias(filePath: string, resolvedPath: string | null, dir: DirectoryConfig): boolean {
+    const { preferAlias = 'always' } = getStylePolicy(filePath, dir);
+    if (preferAlias === 'never') return false;
+    return preferAlias === 'always' || !resolvedPath || !isSameFolder(filePath, resolvedPath, dir);
+}
+
+function getParentDepth(specifier: string): number {
+    return specifier.startsWith('.') ? specifier.split('/').filter((segment) => segment === '..').length : 0;
+}
+
+interface StyleViolation {
+    rule: IssueRule;
+    issue: string;
+    // Replacement specifier, or null when the violation cannot be fixed automatically
+    specifier: string | null;
+    suggestion: string;
+}
+
+// Applies the style policy rules in turn; each fix feeds into the next rule, so the last
+// fixable violation holds the fully normalised specifier
+function findStyleViolations(
+    site: ModuleSpecifierSite,
+    file: SourceFile,
+    dir: DirectoryConfig,
+    aliases: AliasMap,
+    workspacePackages: WorkspacePackage[],
+): StyleViolation[] {
+    const filePath = file.getFilePath();
+    const policy = getStylePolicy(filePath, dir);
+    const violations: StyleViolation[] = [];
+    const resolved = resolveModuleFile(site.specifier, file, site.kind);
+    if (!resolved) return violations;
+    let current = site.specifier;
+    const add = (rule: IssueRule, issue: string, next: string | null, suggestion: string) => {
+        // Only offer specifiers that still resolve to the same file
+        const fixable = !!next && next !== current && resolveModuleFile(next, file, site.kind) === resolved;
+        if (next && next !== current && !fixable)
+            suggestion = `Change to '${next}' once it resolves with this directory's compiler options`;
+        violations.push({ rule, issue, specifier: fixable ? next : null, suggestion });
+        if (fixable) current = next!;
+    };
+
+    const usesAlias = Object.keys(aliases).some((alias) => current === alias || current.startsWith(`${alias}/`));
+    if (!current.startsWith('.') && !usesAlias) {
+        const pkg = workspacePackages.find((candidate) => candidate.name === getPackageName(current));
+        if (policy.noPackageSrc && pkg && current.slice(pkg.name.length).split('/').includes('src')) {
+            add(
+                'package-src-import',
+                `Import reaches into the src folder of '${pkg.name}'`,
+                toWorkspaceSpecifier(resolved, pkg),
+                `Add the module to the "exports" of '${pkg.name}'`,
+            );
         }
+        return violations;
+    }
+    if (resolved.includes('/node_modules/')) return violations;
 
-        const report = {
-            totalFiles: files.length,
-            totalIssues: issues.length,
-            standardIssues: issues.filter((i) => !i.commented).length,
-            commentedIssues: issues.filter((i) => i.commented).length,
-            fixedIssues: issues.filter((i) => i.fixed).length,
-            issues,
-        };
+    const specifierPath = toSpecifierPath(resolved, current);
+    const relativeSpecifier = toRelativeSpecifier(filePath, specifierPath);
+    // A relative import that would climb too far stays aliased, otherwise the two rules would alternate
+    const withinDepth =
+        policy.maxParentDepth === undefined || getParentDepth(relativeSpecifier) <= policy.maxParentDepth;
+    if (usesAlias && !prefersAlias(filePath, resolved, dir) && withinDepth) {
+        add(
+            'relative-preference',
+            policy.preferAlias === 'never'
+                ? `Import should be relative instead of using an alias`
+                : `Import within the same folder should be relative`,
+            relativeSpecifier,
+            'Use a relative import',
+        );
+    }
 
-        writeFileSync(dir.report, JSON.stringify(report, null, 2));
-        console.log(chalk.blue(`\nCompleted repocheck for ${files.length} files in ${dir.path}`));
-        console.log(
-            chalk.cyan(
-                `Total issues: ${issues.length} (Standard: ${report.standardIssues}, Commented: ${report.commentedIssues})`,
-            ),
+    const depth = getParentDepth(current);
+    if (policy.maxParentDepth !== undefined && depth > policy.maxParentDepth) {
+        const alias = findMatchingAlias(specifierPath, aliases, file);
+        add(
+            'parent-depth',
+            `Import climbs ${depth} levels with '../' (at most ${policy.maxParentDepth} allowed)`,
+            alias && convertToAliasPath(specifierPath, alias, aliases),
+            'Add an alias for the target folder',
+        );
+    }
+
+    const extension = current.match(/\.[mc]?[jt]sx?$/)?.[0];
+    if (policy.extensions === 'strip' && extension) {
+        add(
+            'import-extension',
+            `Import should not include the '${extension}' extension`,
+            current.slice(0, -extension.length),
+            'Remove the extension',
         );
-        console.log(chalk.green(`Fixed issues: ${report.fixedIssues}`));
+    } else if (policy.extensions === 'require' && !resolved.endsWith('.d.ts')) {
+        // ESM needs the emitted extension, and folder imports need their explicit index file
+        const outputExtension = resolved.replace(/^.*\.([mc]?)[jt]sx?$/, '.$1js');
+        if (!extension) {
+            const isIndex = /^index\./.test(basename(resolved)) && !/\/index$/.test(current);
+            const base = isIndex ? `${current.replace(/\/$/, '')}/index` : current;
+            add(
+                'import-extension',
+                `ESM import should include the '${outputExtension}' extension`,
+                base + outputExtension,
+                `Add the '${outputExtension}' extension`,
+            );
+        } else if (/\.[mc]?tsx?$/.test(extension)) {
+            add(
+                'import-extension',
+                `ESM import should use the emitted '${outputExtension}' extension instead of '${extension}'`,
+                current.slice(0, -extension.length) + outputExtension,
+                `Change the extension to '${outputExtension}'`,
+            );
+        }
     }
+
+    const indexMatch = current.match(/^(.+)\/index(\.[mc]?[jt]sx?)?$/);
+    if (policy.noIndex && policy.extensions !== 'require' && indexMatch) {
+        add('index-path', `Import should not end in '/index'`, indexMatch[1], "Remove the trailing '/index'");
+    }
+    return violations;
 }
 
-// Use an IIFE to handle the async main function
-(async () => {
-    await repocheck().catch((err) => {
-        console.error(chalk.red('Error running repocheck:', err));
-        process.exit(1);
+// Imports of the same module that can be combined into one declaration: same type-only flag,
+// no namespace import and at most one default import name
+function findDuplicateImports(file: SourceFile): ImportDeclaration[][] {
+    const byModule = new Map<string, ImportDeclaration[]>();
+    for (const importDecl of file.getImportDeclarations()) {
+        if (importDecl.getNamespaceImport()) continue;
+        const key = `${importDecl.isTypeOnly()}:${importDecl.getModuleSpecifierValue()}`;
+        byModule.set(key, [...(byModule.get(key) || []), importDecl]);
+    }
+    // Merging removes the later declarations, so those with comments of their own are left alone
+    const hasComments = (importDecl: ImportDeclaration) =>
+        importDecl.getLeadingCommentRanges().length > 0 || importDecl.getTrailingCommentRanges().length > 0;
+    return [...byModule.values()]
+        .map(([first, ...rest]) => [first, ...rest.filter((importDecl) => !hasComments(importDecl))])
+        .filter((imports) => {
+            const defaults = new Set(
+                imports.map((importDecl) => importDecl.getDefaultImport()?.getText()).filter(Boolean),
+            );
+            return imports.length > 1 && defaults.size <= 1;
+        });
+}
+
+function mergeImportDeclarations([target, ...duplicates]: ImportDeclaration[]) {
+    const existing = new Set(target.getNamedImports().map((specifier) => specifier.getText()));
+    for (const importDecl of duplicates) {
+        const defaultImport = importDecl.getDefaultImport();
+        if (defaultImport && !target.getDefaultImport()) target.setDefaultImport(defaultImport.getText());
+        for (const specifier of importDecl.getNamedImports()) {
+            if (existing.has(specifier.getText())) continue;
+            existing.add(specifier.getText());
+            target.addNamedImport(specifier.getStructure());
+        }
+        importDecl.remove();
+    }
+}
+
+// A reference inside a type annotation, except `class X extends Y`, which evaluates Y at runtime
+function isTypeReference(identifier: Identifier): boolean {
+    if (!identifier.getFirstAncestor((ancestor) => Node.isTypeNode(ancestor))) return false;
+    const heritage = identifier.getFirstAncestorByKind(SyntaxKind.HeritageClause);
+    return !(
+        heritage &&
+        heritage.getToken() === SyntaxKind.ExtendsKeyword &&
+        (Node.isClassDeclaration(heritage.getParent()) || Node.isClassExpression(heritage.getParent()))
+    );
+}
+
+// Import declarations with bindings that are only referenced in type positions. `whole` means
+// every binding is, so the declaration can become `import type`.
+function findTypeOnlyImports(
+    file: SourceFile,
+): Array<{ importDecl: ImportDeclaration; names: string[]; whole: boolean }> {
+    // Emitted decorator metadata turns parameter types into runtime references
+    if (file.getProject().getCompilerOptions().emitDecoratorMetadata) return [];
+    const references = new Map<string, Identifier[]>();
+    for (const identifier of file.getDescendantsOfKind(SyntaxKind.Identifier)) {
+        if (identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)) continue;
+        const parent = identifier.getParent();
+        if (Node.isPropertyAccessExpression(parent) && parent.getNameNode() === identifier) continue;
+        references.set(identifier.getText(), [...(references.get(identifier.getText()) || []), identifier]);
+    }
+    const isTypeOnly = (localName: string) => {
+        const uses = references.get(localName) || [];
+        return uses.length > 0 && uses.every(isTypeReference);
+    };
+
+    const results: Array<{ importDecl: ImportDeclaration; names: string[]; whole: boolean }> = [];
+    for (const importDecl of file.getImportDeclarations()) {
+        if (importDecl.isTypeOnly() || importDecl.getNamespaceImport()) continue;
+        const named = importDecl.getNamedImports().filter((specifier) => !specifier.isTypeOnly());
+        const typeNames = named
+            .filter((specifier) => isTypeOnly((specifier.getAliasNode() ?? specifier.getNameNode()).getText()))
+            .map((specifier) => specifier.getName());
+        const defaultImport = importDecl.getDefaultImport();
+        const defaultIsType = !!defaultImport && isTypeOnly(defaultImport.getText());
+        const whole =
+            (!defaultImport || defaultIsType) &&
+            typeNames.length === named.length &&
+            (typeNames.length > 0 || defaultIsType);
+        if (whole) {
+            results.push({ importDecl, names: [...(defaultIsType ? ['default'] : []), ...typeNames], whole });
+        } else if (typeNames.length) {
+            // A default import cannot be marked inline, so only the named bindings move
+            results.push({ importDecl, names: typeNames, whole });
+        }
+    }
+    return results;
+}
+
+const IMPORT_GROUPS: ImportGroup[] = ['builtin', 'external', 'workspace', 'alias', 'relative'];
+
+function getImportGroup(specifier: string, aliases: AliasMap, workspacePackages: WorkspacePackage[]): ImportGroup {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) return 'relative';
+    if (Object.keys(aliases).some((alias) => specifier === alias || specifier.startsWith(`${alias}/`))) return 'alias';
+    const packageName = getPackageName(specifier);
+    if (!packageName) return 'builtin';
+    return workspacePackages.some((pkg) => pkg.name === packageName) ? 'workspace' : 'external';
+}
+
+// The import block sorted within and separated between groups, or null when it already is.
+// Side-effect imports stay in place since moving them could change evaluation order, and files
+// whose imports are interleaved with other statements are left alone for the same reason.
+function getOrganizedImports(
+    file: SourceFile,
+    groups: ImportGroup[],
+    aliases: AliasMap,
+    workspacePackages: WorkspacePackage[],
+): { start: number; end: number; text: string } | null {
+    const imports = file.getImportDeclarations();
+    if (imports.length < 2) return null;
+    const statements = file.getStatements();
+    const first = statements.indexOf(imports[0]);
+    if (statements.slice(first, first + imports.length).some((statement) => !Node.isImportDeclaration(statement))) {
+        return null;
+    }
+
+    const order = [...groups, ...IMPORT_GROUPS.filter((group) => !groups.includes(group))];
+    const fullText = file.getFullText();
+    // Includes comments on the same line after the import (`import x from './x'; // note`)
+    const getEndWithComments = (importDecl: ImportDeclaration) =>
+        importDecl.getTrailingCommentRanges().slice(-1)[0]?.getEnd() ?? importDecl.getEnd();
+    const entries = imports.map((importDecl, index) => {
+        const specifier = importDecl.getModuleSpecifierValue();
+        // Comments above and after an import move with it, except the file header above the first one
+        const comments = index === 0 ? [] : importDecl.getLeadingCommentRanges().map((range) => range.getText());
+        return {
+            importDecl,
+            specifier,
+            group: order.indexOf(getImportGroup(specifier, aliases, workspacePackages)),
+            text: [...comments, fullText.slice(importDecl.getStart(), getEndWithComments(importDecl))].join('\n'),
+        };
     });
-})();
+    const runs: Array<typeof entries> = [[]];
+    const lines: string[] = [];
+    for (const entry of entries) {
+        if (entry.importDecl.getImportClause()) runs[runs.length - 1].push(entry);
+        else runs.push([entry], []);
+    }
+    for (const run of runs) {
+        run.sort(
+            (a, b) =>
+                a.group - b.group ||
+                a.specifier.toLowerCase().localeCompare(b.specifier.toLowerCase()) ||
+                Number(a.importDecl.isTypeOnly()) - Number(b.importDecl.isTypeOnly()),
+        );
+        run.forEach((entry, index) => {
+            if (index > 0 && entry.group !== run[index - 1].group) lines.push('');
+            lines.push(entry.text);
+        });
+    }
+
+    const start = imports[0].getStart();
+    const end = getEndWithComments(imports[imports.length - 1]);
+    const text = lines.join('\n');
+    return fullText.slice(start, end) === text ? null : { start, end, text };
+}
+
+function getDependencyVersion(dir: DirectoryConfig, name: string): string | null {
+    const packageJson = findPackageJson(dir);
+    const installed = packageJson && join(dirname(packageJson), 'node_modules', name, 'package.json');
+    for (const candidate of [installed, resolve('node_modules', name, 'package.json')]) {
+        if (candidate && existsSync(candidate)) return JSON.parse(readFileSync(candidate, 'utf-8')).version;
+    }
+    // Not installed yet, so fall back to the lowest version the declared range allows
+    const manifest = packageJson ? JSON.parse(readFileSync(packageJson, 'utf-8')) : {};
+    const declared = dir.dependencies?.[name] ?? { ...manifest.devDependencies, ...manifest.dependencies }[name];
+    return (semver.validRange(declared) && semver.minVersion(declared)?.version) || null;
+}
+
+function matchesConditions(special: SpecialCase, filePath: string, dir: DirectoryConfig): boolean {
+    const relativePath = relative(resolve(dir.path), filePath).replace(/\\/g, '/');
+    if (special.include && !special.include.some((glob) => minimatch(relativePath, glob, { dot: true }))) return false;
+    if (special.exclude?.some((glob) => minimatch(relativePath, glob, { dot: true }))) return false;
+    return Object.entries(special.versions || {}).every(([name, range]) => {
+        const version = getDependencyVersion(dir, name);
+        return !!version && semver.satisfies(version, range, { includePrerelease: true });
+    });
+}
+
+// The special case for a specifier, if its conditions hold for this file
+function findSpecialCase(
+    importPath: string,
+    filePath: string,
+    dir: DirectoryConfig,
+): [string, SpecialCase] | undefined {
+    return Object.entries(config.specialCases).find(
+        ([key, special]) =>
+            (special.prefixOnly ? importPath.startsWith(key) : importPath === key) &&
+            matchesConditions(special, filePath, dir),
+    );
+}
+
+// The package a special case migrates to, when `requiresTarget` is set and it is not installed yet
+function getMissingTarget(special: SpecialCase, dir: DirectoryConfig): string | null {
+    const target = special.requiresTarget && special.value && getPackageName(special.value);
+    return target && !getDependencyVersion(dir, target) ? target : null;
+}
+
+interface CheckContext {
+    dir: DirectoryConfig;
+    resolver: string;
+    communitySolutions: CommunitySolution[];
+    workspacePackages: WorkspacePackage[];
+    patches: string[];
+    // Decides fixes instead of --interactive, used to replay a file's fixes without some of them
+    fixFilter?: (issue: ImportIssue) => boolean;
+}
+
+// Identifies an issue across runs over the same original text
+function getFixKey(issue: ImportIssue): string {
+    return `${issue.rule}:${issue.line}:${issue.column ?? ''}:${issue.importPath}`;
+}
+
+// Diagnostics of the given files as "file: TScode message", without positions so moved lines still match.
+// Module names are masked, since a rewritten import changes the specifier that existing diagnostics quote.
+function getDiagnosticKeys(files: SourceFile[]): string[] {
+    return files.flatMap((sourceFile) =>
+        sourceFile.getPreEmitDiagnostics().map((diagnostic) => {
+            const message = ts
+                .flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, ' ')
+                .replace(/\bmodule '[^']*'/gi, "module '*'")
+                .replace(/\bfrom "[^"]*"/g, 'from "*"');
+            return `${relative(process.cwd(), sourceFile.getFilePath())}: TS${diagnostic.getCode()} ${message}`;
+        }),
+    );
+}
+
+// Diagnostics in `after` beyond those already in `before`
+function getIntroducedDiagnostics(before: string[], after: string[]): string[] {
+    const remaining = [...before];
+    return after.filter((key) => {
+        const index = remaining.indexOf(key);
+        if (index === -1) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+}
+
+function getDiagnosticCodes(keys: string[]): string {
+    return [...new Set(keys.map((key) => /: (TS\d+)/.exec(key)![1]))].join(', ');
+}
+
+// Replays analyzeFile on the original text, quietly, applying only the fixes the filter allows
+async function replayFixes(
+    file: SourceFile,
+    originalText: string,
+    context: CheckContext,
+    fixFilter: (issue: ImportIssue) => boolean,
+): Promise<{ issues: ImportIssue[]; modified: boolean }> {
+    file.replaceWithText(originalText);
+    const previousLogger = logger;
+    logger = SILENT_LOGGER;
+    try {
+        return await analyzeFile(file, { ...context, fixFilter });
+    } finally {
+        logger = previousLogger;
+    }
+}
+
+// Type-checks a fixed file and the files importing it. Fixes that introduce new diagnostics are
+// reverted one at a time, and the whole file is reverted if that does not clear them.
+async function verifyFixes(
+    file: SourceFile,
+    originalText: string,
+    context: CheckContext,
+    result: { issues: ImportIssue[]; modified: boolean },
+): Promise<{ issues: ImportIssue[]; modified: boolean }> {
+    const related = [file, ...file.getReferencingSourceFiles()];
+    const fixedText = file.getFullText();
+    file.replaceWithText(originalText);
+    const before = getDiagnosticKeys(related);
+    file.replaceWithText(fixedText);
+    let introduced = getIntroducedDiagnostics(before, getDiagnosticKeys(related));
+    if (!introduced.length) return result;
+
+    const applied = new Set(result.issues.filter((issue) => issue.fixed).map(getFixKey));
+    const reverted = new Map<string, string[]>();
+    let current = result;
+    for (const key of applied) {
+        if (!introduced.length) break;
+        const retry = await replayFixes(
+            file,
+            originalText,
+            context,
+            (issue) => applied.has(getFixKey(issue)) && !reverted.has(getFixKey(issue)) && getFixKey(issue) !== key,
+        );
+        const remaining = getIntroducedDiagnostics(before, getDiagnosticKeys(related));
+        if (remaining.length < introduced.length) {
+            reverted.set(key, getIntroducedDiagnostics(remaining, introduced));
+            introduced = remaining;
+            current = retry;
+        }
+    }
+    // Leave the file in the state of the best attempt
+    if (!introduced.length) {
+        current = await replayFixes(file, originalText, context, (issue) => {
+            const key = getFixKey(issue);
+            return applied.has(key) && !reverted.has(key);
+        });
+    }
+
+    const relativeFilePath = relative(process.cwd(), file.getFilePath());
+    if (introduced.length) {
+        file.replaceWithText(originalText);
+        const codes = getDiagnosticCodes(introduced);
+        for (const issue of result.issues.filter((issue) => issue.fixed)) {
+            issue.fixed = false;
+            issue.userChoice = `Reverted: introduced ${codes}`;
+        }
+        logger.log(chalk.red(`  Reverted all fixes in ${relativeFilePath}: they introduced ${codes}`));
+        introduced.forEach((key) => logger.log(chalk.gray(`    ${key}`)));
+        return { issues: result.issues, modified: false };
+    }
+
+    for (const issue of current.issues) {
+        const diagnostics = reverted.get(getFixKey(issue));
+        if (!diagnostics) continue;
+        issue.fixed = false;
+        issue.userChoice = `Reverted: introduced ${getDiagnosticCodes(diagnostics)}`;
+        logger.log(
+            chalk.red(
+                `  Reverted fix for '${issue.importPath}' (line ${issue.line}): it introduced ${getDiagnosticCodes(
+                    diagnostics,
+                )}`,
+            ),
+        );
+        diagnostics.forEach((key) => logger.log(chalk.gray(`    ${key}`)));
+    }
+    return current;
+}
+
+// Analyses one file and applies the approved fixes to it in memory
+async function analyzeFile(
+    file: SourceFile,
+    context: CheckContext,
+): Promise<{ issues: ImportIssue[]; modified: boolean }> {
+    const { dir, resolver, communitySolutions, workspacePackages } = context;
+    const approveFix = (issue: ImportIssue) => (context.fixFilter ? context.fixFilter(issue) : confirmFix(issue));
+    // Replays only repeat the guesses that were applied before
+    const canApplyGuess = runOptions.applyGuesses || !!context.fixFilter;
+    const filePath = file.getFilePath();
+    const relativeFilePath = relative(process.cwd(), filePath);
+    const aliases = getDirectoryAliases(findOwningDirectory(filePath) ?? dir);
+    const issues: ImportIssue[] = [];
+    logger.log(chalk.white(`\nProcessing: ${relativeFilePath}`));
+
+    const sites = collectModuleSpecifiers(file);
+    let fileModified = false;
+
+    for (const site of sites) {
+        const { kind, importDecl, line, column, endLine, endColumn } = site;
+        const importPath = site.specifier;
+
+        // Special cases usually target packages, so match them before package imports are skipped
+        const specialCase = findSpecialCase(importPath, filePath, dir);
+        if (specialCase) {
+            const [key, special] = specialCase;
+            let suggestion: string | null = null;
+            let newImportPath: string | undefined;
+            const communityMatch = communitySolutions.find((sol) => sol.from === importPath);
+            const importMapping = special.imports || communityMatch?.imports;
+            const mappingNote = describeImportMapping(importMapping);
+
+            if (special.action === 'rename') {
+                newImportPath = special.prefixOnly ? importPath.replace(key, special.value!) : special.value;
+                suggestion = `Rename to: import ... from '${newImportPath}'${mappingNote}`;
+            } else if (special.action === 'replace-method') {
+                newImportPath = special.value;
+                suggestion = importMapping
+                    ? `Replace with: import ... from '${newImportPath}'${mappingNote}`
+                    : communityMatch?.description ||
+                      `Replace with: import { useUser } from '${newImportPath}' (adjust usage accordingly)`;
+            } else {
+                suggestion = 'Excluded from checks';
+            }
+
+            const issue: ImportIssue = {
+                file: relativeFilePath,
+                line,
+                column,
+                endLine,
+                endColumn,
+                importPath,
+                kind,
+                resolver,
+                rule: 'special-case',
+                issue: `Special case: ${special.action}`,
+                suggestion,
+            };
+            const missingTarget = newImportPath && getMissingTarget(special, dir);
+            if (missingTarget) {
+                const install = getInstallCommand(dir, missingTarget);
+                issue.suggestion = `${suggestion} once '${missingTarget}' is installed. Run: ${install}`;
+            }
+
+            if (runOptions.autoFix && newImportPath && special.action !== 'exclude' && !missingTarget) {
+                if (!approveFix(issue)) {
+                    issue.userChoice = 'Skipped';
+                    logger.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
+                } else {
+                    site.literal.setLiteralValue(newImportPath);
+                    const rewrites =
+                        importMapping && importDecl ? rewriteImportBindings(importDecl, importMapping) : [];
+                    issue.fixed = true;
+                    fileModified = true;
+                    logger.log(chalk.green(`  Fixed: Changed to '${newImportPath}'`));
+                    rewrites.forEach((rewrite) => logger.log(chalk.green(`  Fixed: Rewrote ${rewrite}`)));
+                }
+            }
+            issues.push(issue);
+            continue;
+        }
+
+        if (!importPath.startsWith('.') && !importPath.startsWith('@')) continue;
+        if (importPath.startsWith('@') && !Object.keys(aliases).some((a) => importPath.startsWith(a))) {
+            const rootPkg = getPackageName(importPath)!;
+            if (dir.dependencies?.[rootPkg] || existsSync(resolve('node_modules', rootPkg))) continue;
+        }
+
+        logger.log(chalk.gray(`  Checking ${kind}: ${importPath} (line ${line})`));
+        const resolvedPath = resolveImportPath(importPath, file, aliases, kind);
+
+        if (importPath.startsWith('.')) {
+            // Relative imports that reach into another workspace package should go through its name
+            const resolvedFile = resolvedPath && resolveModuleFile(importPath, file, kind);
+            const importerPackage = findWorkspacePackage(filePath, workspacePackages);
+            const targetPackage = resolvedFile && findWorkspacePackage(resolvedFile, workspacePackages);
+            if (resolvedFile && targetPackage && targetPackage !== importerPackage) {
+                const packageSpecifier = toWorkspaceSpecifier(resolvedFile, targetPackage);
+                const exportPath = relative(targetPackage.dir, resolvedFile).replace(/\\/g, '/');
+                const issue: ImportIssue = {
+                    file: relativeFilePath,
+                    line,
+                    column,
+                    endLine,
+                    endColumn,
+                    importPath,
+                    kind,
+                    resolver,
+                    rule: 'cross-package',
+                    issue: `Relative import crosses into workspace package '${targetPackage.name}'`,
+                    suggestion: packageSpecifier
+                        ? `Change to: import ... from '${packageSpecifier}'`
+                        : `Add './${exportPath}' to the "exports" of '${targetPackage.name}'`,
+                };
+                if (importerPackage && !declaresDependency(importerPackage, targetPackage.name)) {
+                    issue.suggestion += `. Add '${targetPackage.name}' to the dependencies of '${importerPackage.name}'`;
+                    logger.log(
+                        chalk.yellow(`  Warning: '${importerPackage.name}' does not depend on '${targetPackage.name}'`),
+                    );
+                }
+
+                if (runOptions.autoFix && packageSpecifier) {
+                    if (!approveFix(issue)) {
+                        issue.userChoice = 'Skipped';
+                        logger.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
+                    } else {
+                        site.literal.setLiteralValue(packageSpecifier);
+                        issue.fixed = true;
+                        fileModified = true;
+                        logger.log(chalk.green(`  Fixed: Changed to '${packageSpecifier}'`));
+                    }
+                }
+                issues.push(issue);
+                continue;
+            }
+
+            const suggestedAlias = prefersAlias(filePath, resolvedPath, dir)
+                ? findMatchingAlias(resolvedPath, aliases, file)
+                : null;
+            if (suggestedAlias) {
+                const relativeImportPath = convertToAliasPath(resolvedPath, suggestedAlias, aliases);
+                const issue: ImportIssue = {
+                    file: relativeFilePath,
+                    line,
+                    column,
+                    endLine,
+                    endColumn,
+                    importPath,
+                    kind,
+                    resolver,
+                    rule: 'alias-preference',
+                    issue: `Relative import should use alias '${suggestedAlias}'`,
+                    suggestion: `Change to: import ... from '${relativeImportPath}'`,
+                };
+
+                if (runOptions.autoFix && relativeImportPath) {
+                    if (!approveFix(issue)) {
+                        issue.userChoice = 'Skipped';
+                        logger.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
+                    } else {
+                        site.literal.setLiteralValue(relativeImportPath);
+                        issue.fixed = true;
+                        fileModified = true;
+                        logger.log(chalk.green(`  Fixed: Changed to '${relativeImportPath}'`));
+                    }
+                }
+                issues.push(issue);
+            } else if (!resolvedPath) {
+                const expectedPath = resolve(dirname(filePath), importPath);
+                const similar = suggestSimilarModule(expectedPath, site, file, aliases);
+                const issue: ImportIssue = {
+                    file: relativeFilePath,
+                    line,
+                    column,
+                    endLine,
+                    endColumn,
+                    importPath,
+                    kind,
+                    resolver,
+                    rule: 'unresolved',
+                    issue: `Relative import '${importPath}' cannot be resolved (${resolver} resolution)`,
+                    suggestion: similar
+                        ? `Did you mean '${similar.specifier}'? (${similar.reason})`
+                        : `File not found at ${expectedPath}`,
+                };
+
+                if (runOptions.autoFix && similar && canApplyGuess) {
+                    if (!approveFix(issue)) {
+                        issue.userChoice = 'Skipped';
+                        logger.log(chalk.yellow(`  Skipped fixing import: ${importPath}`));
+                    } else {
+                        site.literal.setLiteralValue(similar.specifier);
+                        issue.fixed = true;
+                        fileModified = true;
+                        logger.log(chalk.green(`  Fixed: Changed to '${similar.specifier}'`));
+                    }
+                }
+                issues.push(issue);
+            }
+        } else if (importPath.startsWith('@')) {
+            const aliasRoot = importPath.split('/')[0];
+            const fullAlias = importPath.includes('/') ? importPath.split('/').slice(0, 2).join('/') : aliasRoot;
+
+            if (!aliases[fullAlias] && !aliases[aliasRoot]) {
+                const rootPkg = getPackageName(importPath)!;
+                const isSpecialCaseRoot = Object.keys(config.specialCases).some((key) =>
+                    config.specialCases[key].prefixOnly ? key.startsWith(rootPkg) : key === rootPkg,
+                );
+                const suggestion =
+                    isSpecialCaseRoot || dir.dependencies?.[rootPkg]
+                        ? null
+                        : `Module '${rootPkg}' not found. Run: ${getInstallCommand(dir, rootPkg)}`;
+                issues.push({
+                    file: relativeFilePath,
+                    line,
+                    column,
+                    endLine,
+                    endColumn,
+                    importPath,
+                    kind,
+                    resolver,
+                    rule: 'unknown-alias',
+                    issue: `Unknown alias '${fullAlias}' or '${aliasRoot}'`,
+                    suggestion: suggestion || 'Verify alias in tsconfig.json or use relative path',
+                });
+            } else {
+                const expectedPath = aliases[fullAlias]?.path || aliases[aliasRoot]?.path;
+                if (resolvedPath && expectedPath && !resolvedPath.startsWith(expectedPath)) {
+                    const suggestedAlias = findMatchingAlias(resolvedPath, aliases, file);
+                    const relativeImportPath = suggestedAlias
+                        ? convertToAliasPath(resolvedPath, suggestedAlias, aliases)
+                        : null;
+                    const issue: ImportIssue = {
+                        file: relativeFilePath,
+                        line,
+                        column,
+                        endLine,
+                        endColumn,
+                        importPath,
+                        kind,
+                        resolver,
+                        rule: 'alias-mismatch',
+                        issue: `Alias '${importPath}' resolves incorrectly`,
+                        suggestion: relativeImportPath
+                            ? `Change to: import ... from '${relativeImportPath}'`
+                            : `Verify path for '${importPath}'`,
+                    };
+
+                    if (runOptions.autoFix && relativeImportPath) {
+                        if (!approveFix(issue)) {
+                            issue.userChoice = 'Skipped';
+                        } else {
+                            site.literal.setLiteralValue(relativeImportPath);
+                            issue.fixed = true;
+                            fileModified = true;
+                            logger.log(chalk.green(`  Fixed: Changed to '${relativeImportPath}'`));
+                        }
+                    }
+                    issues.push(issue);
+                } else if (!resolvedPath && expectedPath) {
+                    const alias = aliases[fullAlias] ? fullAlias : aliasRoot;
+                    const aliasTarget = resolve(expectedPath, importPath.slice(alias.length + 1));
+                    const similar = suggestSimilarModule(aliasTarget, site, file, aliases);
+                    const issue: ImportIssue = {
+                        file: relativeFilePath,
+                        line,
+                        column,
+                        endLine,
+                        endColumn,
+                        importPath,
+                        kind,
+                        resolver,
+                        rule: 'unresolved',
+                        issue: `Alias import '${importPath}' cannot be resolved (${resolver} resolution)`,
+                        suggestion: similar
+                            ? `Did you mean '${similar.specifier}'? (${similar.reason})`
+                            : `File not found at ${aliasTarget}`,
+                    };
+
+                    if (runOptions.autoFix && similar && canApplyGuess) {
+                        if (!approveFix(issue)) {
+                            issue.userChoice = 'Skipped';
+                        } else {
+                            site.literal.setLiteralValue(similar.specifier);
+                            issue.fixed = true;
+                            fileModified = true;
+                            logger.log(chalk.green(`  Fixed: Changed to '${similar.specifier}'`));
+                        }
+                    }
+                    issues.push(issue);
+                }
+            }
+        }
+    }
+
+    // Style policy checks, for imports that passed every other check
+    for (const site of sites) {
+        if (issues.some((issue) => issue.line === site.line && issue.column === site.column)) continue;
+        const { kind, line, column, endLine, endColumn } = site;
+        for (const violation of findStyleViolations(site, file, dir, aliases, workspacePackages)) {
+            const issue: ImportIssue = {
+                file: relativeFilePath,
+                line,
+                column,
+                endLine,
+                endColumn,
+                importPath: site.specifier,
+                kind,
+                resolver,
+                rule: violation.rule,
+                issue: violation.issue,
+                suggestion: violation.specifier
+                    ? `Change to: import ... from '${violation.specifier}'`
+                    : violation.suggestion,
+            };
+
+            if (runOptions.autoFix && violation.specifier) {
+                if (!approveFix(issue)) {
+                    issue.userChoice = 'Skipped';
+                    logger.log(chalk.yellow(`  Skipped fixing import: ${site.specifier}`));
+                } else {
+                    site.literal.setLiteralValue(violation.specifier);
+                    issue.fixed = true;
+                    fileModified = true;
+                    logger.log(chalk.green(`  Fixed: Changed to '${violation.specifier}'`));
+                }
+            }
+            issues.push(issue);
+            // Later violations build on this fix, so they are moot once it is skipped
+            if (issue.userChoice) break;
+        }
+    }
+
+    // Commented imports are edited by range; `shift` is how far earlier edits moved the later ones
+    let shift = 0;
+    const editComment = (commented: CommentedImport, replacement: string | null) => {
+        const fullText = file.getFullText();
+        let start = commented.start + shift;
+        let end = commented.end + shift;
+        if (replacement === null) {
+            // Deleting the only thing on its lines removes the lines too
+            const lineStart = fullText.lastIndexOf('\n', start - 1) + 1;
+            const lineEnd = fullText.indexOf('\n', end) === -1 ? fullText.length : fullText.indexOf('\n', end);
+            if (!fullText.slice(lineStart, start).trim() && !fullText.slice(end, lineEnd).trim()) {
+                start = lineStart;
+                end = Math.min(lineEnd + 1, fullText.length);
+            }
+        }
+        const text = replacement ?? '';
+        file.replaceWithText(fullText.slice(0, start) + text + fullText.slice(end));
+        shift += text.length - (end - start);
+    };
+    const liveNames = new Set(
+        file
+            .getDescendantsOfKind(SyntaxKind.Identifier)
+            .filter((identifier) => !identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration))
+            .map((identifier) => identifier.getText()),
+    );
+
+    for (const commented of findCommentedImports(file)) {
+        const { text, line, commentType, importPath } = commented;
+        logger.log(chalk.gray(`  Found commented import: ${text} (line ${line}, type: ${commentType})`));
+        const resolvedPath = resolveImportPath(importPath, file, aliases);
+        const specialCase = findSpecialCase(importPath, filePath, dir);
+        const rootPkg = getPackageName(importPath);
+        const isSpecialCaseRoot =
+            !!rootPkg &&
+            Object.keys(config.specialCases).some((key) =>
+                config.specialCases[key].prefixOnly ? key.startsWith(rootPkg) : key === rootPkg,
+            );
+
+        if (runOptions.pruneCommented) {
+            // A live import of the same module that already binds every name the commented one would
+            const duplicate = file.getImportDeclarations().some((importDecl) => {
+                const specifier = importDecl.getModuleSpecifierValue();
+                const sameModule =
+                    specifier === importPath ||
+                    (!!resolvedPath && resolveImportPath(specifier, file, aliases) === resolvedPath);
+                const bound = [
+                    importDecl.getDefaultImport()?.getText(),
+                    importDecl.getNamespaceImport()?.getText(),
+                    ...importDecl
+                        .getNamedImports()
+                        .map((named) => (named.getAliasNode() ?? named.getNameNode()).getText()),
+                ];
+                return sameModule && commented.bindings.every((name) => bound.includes(name));
+            });
+            const unresolvable =
+                !resolvedPath &&
+                !specialCase &&
+                !isSpecialCaseRoot &&
+                !(rootPkg && (dir.dependencies?.[rootPkg] || getDependencyVersion(dir, rootPkg)));
+            const stale = commented.bindings.length > 0 && !commented.bindings.some((name) => liveNames.has(name));
+            const reason = duplicate
+                ? 'duplicated by a live import'
+                : unresolvable
+                ? `unresolvable (${resolver} resolution)`
+                : stale
+                ? `stale: ${commented.bindings.join(', ')} ${commented.bindings.length > 1 ? 'are' : 'is'} not used`
+                : null;
+            if (reason) {
+                const issue: ImportIssue = {
+                    file: relativeFilePath,
+                    line,
+                    importPath,
+                    resolver,
+                    rule: 'commented-import',
+                    issue: `Commented import is ${reason}`,
+                    suggestion: commented.rewritable
+                        ? 'Delete the commented import'
+                        : 'Manually remove the import from the comment',
+                    commented: true,
+                };
+
+                if (runOptions.autoFix && commented.rewritable) {
+                    if (!approveFix(issue)) {
+                        issue.userChoice = 'Skipped';
+                        logger.log(chalk.yellow(`  Skipped deleting commented import: ${importPath}`));
+                    } else {
+                        editComment(commented, null);
+                        issue.fixed = true;
+                        fileModified = true;
+                        logger.log(chalk.green(`  Fixed: Deleted commented import of '${importPath}'`));
+                    }
+                }
+                issues.push(issue);
+                continue;
+            }
+        }
+        // Pruning only deletes; everything else is left commented
+        const canUncomment = runOptions.autoFix && !runOptions.pruneCommented && commented.rewritable;
+
+        if (specialCase) {
+            const [key, special] = specialCase;
+            let suggestion: string | null = null;
+            let newImportPath: string | undefined;
+            const communityMatch = communitySolutions.find((sol) => sol.from === importPath);
+
+            if (special.action === 'rename') {
+                newImportPath = special.prefixOnly ? importPath.replace(key, special.value!) : special.value;
+                suggestion = `Uncomment and rename to: ${describeUncommented(commented, newImportPath!)}`;
+            } else if (special.action === 'replace-method') {
+                newImportPath = special.value;
+                suggestion =
+                    communityMatch?.description ||
+                    `Uncomment and replace with: import { useUser } from '${newImportPath}' (adjust usage accordingly)`;
+            } else {
+                suggestion = 'Excluded from checks';
+            }
+
+            const issue: ImportIssue = {
+                file: relativeFilePath,
+                line,
+                importPath,
+                resolver,
+                rule: 'commented-import',
+                issue: `Commented special case: ${special.action}`,
+                suggestion,
+                commented: true,
+            };
+            const missingTarget = newImportPath && getMissingTarget(special, dir);
+            if (missingTarget) {
+                const install = getInstallCommand(dir, missingTarget);
+                issue.suggestion = `${suggestion} once '${missingTarget}' is installed. Run: ${install}`;
+            }
+
+            if (canUncomment && newImportPath && special.action !== 'exclude' && !missingTarget) {
+                if (approveFix(issue)) {
+                    editComment(commented, uncommentImport(commented, newImportPath));
+                    issue.fixed = true;
+                    fileModified = true;
+                    logger.log(chalk.green(`  Fixed: Uncommented and changed to '${newImportPath}'`));
+                }
+            }
+            issues.push(issue);
+            continue;
+        }
+
+        if (!resolvedPath) {
+            const suggestion =
+                !rootPkg || isSpecialCaseRoot || dir.dependencies?.[rootPkg]
+                    ? 'Uncomment to use'
+                    : `Module '${rootPkg}' not found. Run: ${getInstallCommand(dir, rootPkg)}`;
+            issues.push({
+                file: relativeFilePath,
+                line,
+                importPath,
+                resolver,
+                rule: 'commented-import',
+                issue: `Commented import '${importPath}' cannot be resolved (${resolver} resolution)`,
+                suggestion,
+                commented: true,
+            });
+            continue;
+        }
+
+        const suggestedAlias = findMatchingAlias(resolvedPath, aliases, file);
+        const newImportPath = suggestedAlias ? convertToAliasPath(resolvedPath, suggestedAlias, aliases) : importPath;
+        const issue: ImportIssue = {
+            file: relativeFilePath,
+            line,
+            importPath,
+            resolver,
+            rule: 'commented-import',
+            issue: suggestedAlias
+                ? `Commented import should use alias '${suggestedAlias}'`
+                : `Commented import has no matching alias`,
+            suggestion: `Uncomment and change to: ${describeUncommented(commented, newImportPath)}`,
+            commented: true,
+        };
+
+        if (canUncomment && newImportPath) {
+            if (approveFix(issue)) {
+                editComment(commented, uncommentImport(commented, newImportPath));
+                issue.fixed = true;
+                fileModified = true;
+                logger.log(chalk.green(`  Fixed: Uncommented and changed to '${newImportPath}'`));
+            }
+        }
+        issues.push(issue);
+    }
+
+    // Organising runs last because it moves lines, which the commented import fixes rely on
+    const style = getStylePolicy(filePath, dir);
+    const firstImportLine = () => file.getImportDeclarations()[0]?.getStartLineNumber() ?? 1;
+    for (const duplicates of style.mergeImports === false ? [] : findDuplicateImports(file)) {
+        const importPath = duplicates[0].getModuleSpecifierValue();
+        const issue: ImportIssue = {
+            file: relativeFilePath,
+            line: duplicates[1].getStartLineNumber(),
+            importPath,
+            kind: 'import',
+            resolver,
+            rule: 'duplicate-import',
+            issue: `'${importPath}' is imported ${duplicates.length} times`,
+            suggestion: `Merge into the import on line ${duplicates[0].getStartLineNumber()}`,
+        };
+
+        if (runOptions.autoFix) {
+            if (!approveFix(issue)) {
+                issue.userChoice = 'Skipped';
+                logger.log(chalk.yellow(`  Skipped merging imports of ${importPath}`));
+            } else {
+                mergeImportDeclarations(duplicates);
+                issue.fixed = true;
+                fileModified = true;
+                logger.log(chalk.green(`  Fixed: Merged ${duplicates.length} imports of '${importPath}'`));
+            }
+        }
+        issues.push(issue);
+    }
+
+    // verbatimModuleSyntax keeps every import that is not marked as type-only in the output
+    if (file.getProject().getCompilerOptions().verbatimModuleSyntax) {
+        for (const { importDecl, names, whole } of findTypeOnlyImports(file)) {
+            const importPath = importDecl.getModuleSpecifierValue();
+            const issue: ImportIssue = {
+                file: relativeFilePath,
+                line: importDecl.getStartLineNumber(),
+                importPath,
+                kind: 'import',
+                resolver,
+                rule: 'type-import',
+                issue: `${names.join(', ')} from '${importPath}' ${
+                    names.length > 1 ? 'are' : 'is'
+                } only used as a type`,
+                suggestion: whole
+                    ? `Change to: import type ... from '${importPath}'`
+                    : `Mark as type: ${names.join(', ')}`,
+            };
+
+            if (runOptions.autoFix) {
+                if (!approveFix(issue)) {
+                    issue.userChoice = 'Skipped';
+                    logger.log(chalk.yellow(`  Skipped type-only import of ${importPath}`));
+                } else {
+                    if (whole) {
+                        importDecl.getNamedImports().forEach((specifier) => specifier.setIsTypeOnly(false));
+                        importDecl.setIsTypeOnly(true);
+                    } else {
+                        importDecl
+                            .getNamedImports()
+                            .filter((specifier) => names.includes(specifier.getName()))
+                            .forEach((specifier) => specifier.setIsTypeOnly(true));
+                    }
+                    issue.fixed = true;
+                    fileModified = true;
+                    logger.log(chalk.green(`  Fixed: Marked ${names.join(', ')} as type-only`));
+                }
+            }
+            issues.push(issue);
+        }
+    }
+
+    const organized = style.importGroups && getOrganizedImports(file, style.importGroups, aliases, workspacePackages);
+    if (organized) {
+        const issue: ImportIssue = {
+            file: relativeFilePath,
+            line: firstImportLine(),
+            importPath: file.getImportDeclarations()[0].getModuleSpecifierValue(),
+            kind: 'import',
+            resolver,
+            rule: 'import-order',
+            issue: `Imports are not sorted and grouped as ${style.importGroups!.join(', ')}`,
+            suggestion: 'Reorder the import block',
+        };
+
+        if (runOptions.autoFix) {
+            if (!approveFix(issue)) {
+                issue.userChoice = 'Skipped';
+                logger.log(chalk.yellow(`  Skipped reordering imports`));
+            } else {
+                // Reparse the whole file, since replaceText cannot move nodes around
+                const fullText = file.getFullText();
+                file.replaceWithText(
+                    fullText.slice(0, organized.start) + organized.text + fullText.slice(organized.end),
+                );
+                issue.fixed = true;
+                fileModified = true;
+                logger.log(chalk.green(`  Fixed: Reordered imports`));
+            }
+        }
+        issues.push(issue);
+    }
+
+    return { issues, modified: fileModified };
+}
+
+// Analyses one file and, when fixing, verifies the fixes, then saves it (or records a patch in dry-run mode)
+async function checkFile(
+    file: SourceFile,
+    context: CheckContext,
+): Promise<{ issues: ImportIssue[]; modified: boolean }> {
+    const relativeFilePath = relative(process.cwd(), file.getFilePath());
+    const originalText = file.getFullText();
+    const result = await analyzeFile(file, context);
+    if (!result.modified || !runOptions.autoFix) return result;
+
+    const { issues, modified } = runOptions.verifyFixes
+        ? await verifyFixes(file, originalText, context, result)
+        : result;
+    if (modified) {
+        if (runOptions.dryRun) {
+            const patch = createFilePatch(relativeFilePath, originalText, file.getFullText());
+            context.patches.push(patch);
+            printPatch(patch);
+        } else {
+            await file.save();
+            logger.log(chalk.green(`  Saved changes to ${relativeFilePath}`));
+        }
+    }
+    return { issues, modified };
+}
+
+interface CheckRun {
+    directories: DirectorySummary[];
+    issues: ImportIssue[];
+    moduleGraph: ModuleGraph;
+    patches: string[];
+}
+
+// Checks every configured directory and applies the approved fixes when runOptions.autoFix is set.
+// `onlyFiles` (absolute paths) limits checking and fixing to those files.
+async function runChecks(onlyFiles?: Set<string>): Promise<CheckRun> {
+    const changedPaths = getChangedPaths();
+    const changedFiles = changedPaths && new Set([...changedPaths].filter((path) => SOURCE_FILE_PATTERN.test(path)));
+    if (changedFiles) {
+        logger.log(chalk.gray(`Incremental mode: ${changedFiles.size} changed source files`));
+    }
+    const communitySolutions = await loadCommunitySolutions();
+    const workspacePackages = scanWorkspaces(process.cwd());
+    if (workspacePackages.length) {
+        logger.log(chalk.gray(`Workspace packages: ${workspacePackages.map((pkg) => pkg.name).join(', ')}`));
+    }
+    const patches: string[] = [];
+    const allIssues: ImportIssue[] = [];
+    const directorySummaries: DirectorySummary[] = [];
+    const moduleGraph: ModuleGraph = new Map();
+    // Incremental runs only report graph issues that involve one of the checked files
+    const checkedFiles = changedFiles ? new Set<string>(changedFiles) : undefined;
+    for (const dir of config.directories) {
+        // Incremental runs only audit the dependencies when a package.json or lockfile changed
+        const shouldAudit = !changedPaths || haveDependenciesChanged(dir, changedPaths);
+        if (changedFiles && !shouldAudit && !mayBeAffected(dir, changedFiles)) {
+            logger.log(chalk.gray(`\nSkipping ${dir.path}: no changed files or importers`));
+            continue;
+        }
+        if (onlyFiles && ![...onlyFiles].some((filePath) => isInsideDirectory(filePath, dir.path))) continue;
+        logger.log(chalk.blue(`\nStarting repocheck for ${dir.path}`));
+        logger.log(
+            chalk.gray(
+                `Auto-fix: ${runOptions.autoFix}${prompter ? ' (interactive)' : ''}${
+                    runOptions.dryRun ? ' (dry run)' : ''
+                }`,
+            ),
+        );
+        logger.log(chalk.gray(`Report will be saved to ${dir.report}`));
+
+        const cacheKey = getCacheKey(dir, communitySolutions, workspacePackages);
+        const cache = readAnalysisCache(dir, cacheKey);
+        // Check-only runs over unchanged code reuse the cached issues without parsing anything
+        if (cache && !runOptions.autoFix && !onlyFiles && isCacheFresh(cache)) {
+            const cachedFiles = cache.fileList.filter(
+                (relativePath) =>
+                    !changedFiles ||
+                    changedFiles.has(toUri(resolve(relativePath))) ||
+                    importsChangedFile(cache.files[relativePath].specifiers, changedFiles),
+            );
+            const issues = cachedFiles.flatMap((relativePath) => cache.files[relativePath].issues);
+            for (const relativePath of cachedFiles) checkedFiles?.add(toUri(resolve(relativePath)));
+            logger.log(
+                chalk.gray(`No changes since the last run, using cached analysis for ${cachedFiles.length} files`),
+            );
+            for (const relativePath of cache.fileList) {
+                moduleGraph.set(toUri(resolve(relativePath)), cache.files[relativePath].specifiers);
+            }
+            if (shouldAudit) {
+                issues.push(...auditDependencies(dir, cache.fileList, moduleGraph, workspacePackages, patches));
+            }
+            allIssues.push(...issues);
+            directorySummaries.push(writeDirectoryReport(dir, cachedFiles.length, issues));
+            continue;
+        }
+        const nextCache: AnalysisCache = { version: CACHE_VERSION, key: cacheKey, fileList: [], files: {} };
+
+        const project = new Project({ tsConfigFilePath: dir.tsconfig });
+        const resolver = describeResolver(project.getCompilerOptions());
+        logger.log(chalk.gray(`Module resolution: ${resolver}`));
+        let files = getDirectoryFiles(project, dir);
+        nextCache.fileList = files.map((file) => relative(process.cwd(), file.getFilePath()));
+        for (const relativePath of nextCache.fileList) {
+            if (cache?.files[relativePath]) nextCache.files[relativePath] = cache.files[relativePath];
+        }
+        if (changedFiles) {
+            files = files.filter((file) => {
+                const cached = getCachedFile(cache, relative(process.cwd(), file.getFilePath()), file.getFullText());
+                const specifiers = cached ? cached.specifiers : getSpecifierRecords(file);
+                return changedFiles.has(file.getFilePath()) || importsChangedFile(specifiers, changedFiles);
+            });
+        }
+        if (onlyFiles) files = files.filter((file) => onlyFiles.has(file.getFilePath()));
+        for (const file of files) checkedFiles?.add(file.getFilePath());
+        logger.log(chalk.cyan(`Found ${files.length} files to process`));
+
+        const context: CheckContext = { dir, resolver, communitySolutions, workspacePackages, patches };
+        const issues: ImportIssue[] = [];
+
+        for (const file of files) {
+            const filePath = file.getFilePath();
+            const relativeFilePath = relative(process.cwd(), filePath);
+            const originalText = file.getFullText();
+
+            // Unchanged files are skipped, unless fixing and there is something to fix
+            const cached = getCachedFile(cache, relativeFilePath, originalText);
+            if (cached && (!runOptions.autoFix || !cached.issues.length)) {
+                issues.push(...cached.issues);
+                continue;
+            }
+            const { issues: fileIssues, modified } = await checkFile(file, context);
+            issues.push(...fileIssues);
+
+            if (modified) {
+                delete nextCache.files[relativeFilePath];
+            } else {
+                nextCache.files[relativeFilePath] = {
+                    hash: hashText(originalText),
+                    specifiers: getSpecifierRecords(file),
+                    issues: fileIssues.map(({ userChoice, ...issue }) => JSON.parse(JSON.stringify(issue))),
+                };
+            }
+        }
+        writeAnalysisCache(dir, nextCache);
+        for (const relativePath of nextCache.fileList) {
+            const filePath = toUri(resolve(relativePath));
+            const cached = nextCache.files[relativePath];
+            moduleGraph.set(
+                filePath,
+                cached ? cached.specifiers : getSpecifierRecords(project.getSourceFileOrThrow(filePath)),
+            );
+        }
+        if (shouldAudit) {
+            issues.push(...auditDependencies(dir, nextCache.fileList, moduleGraph, workspacePackages, patches));
+        }
+
+        allIssues.push(...issues);
+        directorySummaries.push(writeDirectoryReport(dir, files.length, issues));
+    }
+
+    allIssues.push(...checkModuleGraph(moduleGraph, checkedFiles));
+    return { directories: directorySummaries, issues: allIssues, moduleGraph, patches };
+}
+
+async function repocheck() {
+    if (runOptions.updateBaseline && (runOptions.changedOnly || runOptions.since)) {
+        logger.log(chalk.red('--update-baseline needs a full run; drop --changed/--since.'));
+        process.exit(1);
+    }
+    const { directories, issues, moduleGraph, patches } = await runChecks();
+    if (runOptions.patchPath) {
+        writeFileSync(runOptions.patchPath, patches.join(''));
+        logger.log(chalk.green(`\nPatch for ${patches.length} file(s) written to ${runOptions.patchPath}`));
+    }
+    writeGraphExports(moduleGraph);
+
+    if (runOptions.updateBaseline) writeBaseline(issues);
+    writeFormattedReports(buildMonorepoReport(directories, issues));
+    if (runOptions.ci && !reportCiResult(issues)) process.exit(1);
+}
+
+// Assigns severities, writes the directory's JSON report and prints its summary
+function assignSeverities(issues: ImportIssue[]) {
+    for (const issue of issues) {
+        const severity = getSeverity(issue);
+        if (severity !== 'off') issue.severity = severity;
+    }
+}
+
+function writeDirectoryReport(dir: DirectoryConfig, totalFiles: number, issues: ImportIssue[]): DirectorySummary {
+    assignSeverities(issues);
+
+    const report = {
+        totalFiles,
+        totalIssues: issues.length,
+        standardIssues: issues.filter((i) => !i.commented).length,
+        commentedIssues: issues.filter((i) => i.commented).length,
+        fixedIssues: issues.filter((i) => i.fixed).length,
+        issues,
+    };
+
+    if (runOptions.writeReports) writeFileSync(dir.report, JSON.stringify(report, null, 2));
+    logger.log(chalk.blue(`\nCompleted repocheck for ${totalFiles} files in ${dir.path}`));
+    logger.log(
+        chalk.cyan(
+            `Total issues: ${issues.length} (Standard: ${report.standardIssues}, Commented: ${report.commentedIssues})`,
+        ),
+    );
+    logger.log(
+        chalk.green(`${runOptions.dryRun ? 'Fixable issues (dry run)' : 'Fixed issues'}: ${report.fixedIssues}`),
+    );
+    return { path: dir.path, report: dir.report, totalFiles, totalIssues: issues.length };
+}
+
+const DEFAULT_SEVERITIES: { [rule in IssueRule]: Severity } = {
+    unresolved: 'error',
+    'unknown-alias': 'error',
+    'alias-mismatch': 'warning',
+    'alias-preference': 'warning',
+    'cross-package': 'warning',
+    'special-case': 'warning',
+    'commented-import': 'info',
+    cycle: 'warning',
+    'layer-violation': 'error',
+    'orphan-module': 'warning',
+    'unused-export': 'info',
+    'undeclared-dependency': 'error',
+    'unused-dependency': 'warning',
+    'test-only-dependency': 'warning',
+    'relative-preference': 'warning',
+    'parent-depth': 'warning',
+    'import-extension': 'warning',
+    'index-path': 'warning',
+    'package-src-import': 'warning',
+    'duplicate-import': 'warning',
+    'type-import': 'warning',
+    'import-order': 'info',
+};
+
+const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'error'];
+
+function getSeverity(issue: ImportIssue): Severity | 'off' {
+    const rule = issue.rule || 'unresolved';
+    return config.severities?.[rule] || DEFAULT_SEVERITIES[rule];
+}
+
+interface BaselineEntry {
+    file: string;
+    rule?: IssueRule;
+    importPath: string;
+}
+
+// Line numbers shift with unrelated edits, so baseline entries are matched without them
+function getBaselineKey(issue: BaselineEntry): string {
+    return [issue.file.replace(/\\/g, '/'), issue.rule, issue.importPath].join('|');
+}
+
+function getBaselinePath(): string {
+    return runOptions.baselinePath || config.baseline || 'repofix-baseline.json';
+}
+
+function writeBaseline(issues: ImportIssue[]) {
+    const entries: BaselineEntry[] = issues
+        .filter((issue) => !issue.fixed && getSeverity(issue) !== 'off')
+        .map(({ file, rule, importPath }) => ({ file: file.replace(/\\/g, '/'), rule, importPath }));
+    writeFileSync(getBaselinePath(), JSON.stringify({ version: 1, issues: entries }, null, 2));
+    logger.log(chalk.green(`Baseline with ${entries.length} issue(s) written to ${getBaselinePath()}`));
+}
+
+// Returns the issues that are not covered by the baseline; each baseline entry absorbs one issue
+function filterBaselined(issues: ImportIssue[]): ImportIssue[] {
+    const baselinePath = getBaselinePath();
+    if (!existsSync(baselinePath)) return issues;
+    const { issues: entries } = JSON.parse(readFileSync(baselinePath, 'utf-8')) as { issues: BaselineEntry[] };
+    const remaining = new Map<string, number>();
+    for (const entry of entries) remaining.set(getBaselineKey(entry), (remaining.get(getBaselineKey(entry)) || 0) + 1);
+    return issues.filter((issue) => {
+        const count = remaining.get(getBaselineKey(issue)) || 0;
+        if (!count) return true;
+        remaining.set(getBaselineKey(issue), count - 1);
+        return false;
+    });
+}
+
+// Prints the CI summary and returns whether the run passed
+function reportCiResult(issues: ImportIssue[]): boolean {
+    const counted = issues.filter((issue) => !issue.fixed && issue.severity);
+    const newIssues = filterBaselined(counted);
+    const failOn = runOptions.failOn || config.failOn || 'error';
+    const failing = newIssues.filter(
+        (issue) => SEVERITY_ORDER.indexOf(issue.severity!) >= SEVERITY_ORDER.indexOf(failOn),
+    );
+    const countOf = (severity: Severity) => newIssues.filter((issue) => issue.severity === severity).length;
+
+    logger.log(chalk.blue('\nCI summary'));
+    logger.log(
+        chalk.cyan(
+            `New issues: ${countOf('error')} error(s), ${countOf('warning')} warning(s), ${countOf('info')} info` +
+                ` (${counted.length - newIssues.length} in baseline)`,
+        ),
+    );
+    for (const issue of failing) {
+        logger.log(chalk.red(`  ${issue.severity}: ${issue.file}:${issue.line} ${issue.issue} [${issue.rule}]`));
+    }
+    if (failing.length) {
+        logger.log(chalk.red(`CI check failed: ${failing.length} new issue(s) at or above '${failOn}'`));
+        return false;
+    }
+    logger.log(chalk.green(`CI check passed (threshold: ${failOn})`));
+    return true;
+}
+
+interface DirectorySummary {
+    path: string;
+    report: string;
+    totalFiles: number;
+    totalIssues: number;
+}
+
+// Aggregated result of a run across every configured directory
+interface MonorepoReport {
+    tool: { name: string; version: string };
+    totalFiles: number;
+    totalIssues: number;
+    fixedIssues: number;
+    directories: DirectorySummary[];
+    issues: ImportIssue[];
+}
+
+type Reporter = (report: MonorepoReport) => string;
+
+const RULE_DESCRIPTIONS: { [rule in IssueRule]: string } = {
+    unresolved: 'Import cannot be resolved',
+    'unknown-alias': 'Import uses an alias that is not configured',
+    'alias-mismatch': 'Alias resolves outside of its configured path',
+    'alias-preference': 'Relative import should use an alias',
+    'cross-package': 'Relative import reaches into another workspace package',
+    'special-case': 'Import matches a configured special case',
+    'commented-import': 'Commented-out import',
+    cycle: 'Import is part of a circular dependency',
+    'layer-violation': 'Import crosses a forbidden layer boundary',
+    'orphan-module': 'Module is not reachable from any entry point',
+    'unused-export': 'Export is never imported',
+    'undeclared-dependency': 'Imported package is not declared in package.json',
+    'unused-dependency': 'Declared dependency is never imported',
+    'test-only-dependency': 'Dependency is only imported by tests',
+    'relative-preference': 'Import within the same folder should be relative',
+    'parent-depth': "Relative import climbs too many '../' levels",
+    'import-extension': 'Import extension does not follow the style policy',
+    'index-path': "Import ends in '/index'",
+    'package-src-import': "Import reaches into another package's src folder",
+    'duplicate-import': 'Module is imported more than once',
+    'type-import': "Imports only used as types should use 'import type'",
+    'import-order': 'Imports are not sorted and grouped',
+};
+
+function readToolVersion(): string {
+    for (const candidate of [join(__dirname, 'package.json'), join(__dirname, '..', 'package.json')]) {
+        if (existsSync(candidate)) return JSON.parse(readFileSync(candidate, 'utf-8')).version;
+    }
+    return '0.0.0';
+}
+
+function buildMonorepoReport(directories: DirectorySummary[], issues: ImportIssue[]): MonorepoReport {
+    return {
+        tool: { name: 'repofix', version: readToolVersion() },
+        totalFiles: directories.reduce((total, dir) => total + dir.totalFiles, 0),
+        totalIssues: issues.length,
+        fixedIssues: issues.filter((issue) => issue.fixed).length,
+        directories,
+        issues,
+    };
+}
+
+// Issues that still need attention; rules switched off in the config are left out
+function getOpenIssues(report: MonorepoReport): ImportIssue[] {
+    return report.issues.filter((issue) => !issue.fixed && issue.severity);
+}
+
+function toUri(file: string): string {
+    return file.replace(/\\/g, '/');
+}
+
+const formatSarif: Reporter = (report) => {
+    const issues = getOpenIssues(report);
+    const rules = [...new Set(issues.map((issue) => issue.rule || 'unresolved'))];
+    const levels: { [severity in Severity]: string } = { error: 'error', warning: 'warning', info: 'note' };
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: report.tool.name,
+                        version: report.tool.version,
+                        informationUri: 'https://github.com/ubuntupunk/repofix',
+                        rules: rules.map((rule) => ({ id: rule, shortDescription: { text: RULE_DESCRIPTIONS[rule] } })),
+                    },
+                },
+                results: issues.map((issue) => ({
+                    ruleId: issue.rule || 'unresolved',
+                    ruleIndex: rules.indexOf(issue.rule || 'unresolved'),
+                    level: levels[issue.severity!],
+                    message: { text: issue.suggestion ? `${issue.issue}. ${issue.suggestion}` : issue.issue },
+                    locations: [
+                        {
+                            physicalLocation: {
+                                artifactLocation: { uri: toUri(issue.file), uriBaseId: '%SRCROOT%' },
+                                region: {
+                                    startLine: issue.line,
+                                    startColumn: issue.column,
+                                    endLine: issue.endLine,
+                                    endColumn: issue.endColumn,
+                                },
+                            },
+                        },
+                    ],
+                })),
+            },
+        ],
+    };
+    return JSON.stringify(sarif, null, 2);
+};
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+// One test suite per directory and one test case per issue; open issues are failures
+const formatJunit: Reporter = (report) => {
+    const suites = report.directories.map((dir) => {
+        const prefix = toUri(relative(process.cwd(), dir.path));
+        const issues = report.issues.filter((issue) => issue.severity && isInsideDirectory(issue.file, dir.path));
+        const failures = issues.filter((issue) => !issue.fixed);
+        const cases = issues.map((issue) => {
+            const name = escapeXml(`${toUri(issue.file)}:${issue.line} ${issue.importPath}`);
+            const testcase = `    <testcase name="${name}" classname="repofix.${issue.rule || 'unresolved'}"`;
+            if (issue.fixed) return `${testcase}/>`;
+            const message = escapeXml(issue.issue);
+            const details = escapeXml(issue.suggestion || '');
+            return `${testcase}>\n      <failure message="${message}" type="${issue.severity}">${details}</failure>\n    </testcase>`;
+        });
+        return [
+            `  <testsuite name="${escapeXml(prefix || '.')}" tests="${issues.length}" failures="${failures.length}">`,
+            ...cases,
+            '  </testsuite>',
+        ].join('\n');
+    });
+    const failures = report.issues.filter((issue) => issue.severity && !issue.fixed).length;
+    const tests = report.issues.filter((issue) => issue.severity).length;
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="repofix" tests="${tests}" failures="${failures}">`,
+        ...suites,
+        '</testsuites>',
+        '',
+    ].join('\n');
+};
+
+// Workflow command values need %, CR and LF escaped; properties also need : and ,
+function escapeAnnotation(text: string, isProperty = false): string {
+    const escaped = text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+    return isProperty ? escaped.replace(/:/g, '%3A').replace(/,/g, '%2C') : escaped;
+}
+
+const formatGithub: Reporter = (report) => {
+    const commands: { [severity in Severity]: string } = { error: 'error', warning: 'warning', info: 'notice' };
+    return getOpenIssues(report)
+        .map((issue) => {
+            const properties = [
+                `file=${escapeAnnotation(toUri(issue.file), true)}`,
+                `line=${issue.line}`,
+                issue.column && `col=${issue.column}`,
+                issue.endLine && `endLine=${issue.endLine}`,
+                issue.endColumn && `endColumn=${issue.endColumn}`,
+                `title=${escapeAnnotation(`repofix (${issue.rule || 'unresolved'})`, true)}`,
+            ].filter(Boolean);
+            const message = issue.suggestion ? `${issue.issue}. ${issue.suggestion}` : issue.issue;
+            return `::${commands[issue.severity!]} ${properties.join(',')}::${escapeAnnotation(message)}`;
+        })
+        .join('\n');
+};
+
+const formatMarkdown: Reporter = (report) => {
+    const issues = getOpenIssues(report);
+    const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+    const lines = [
+        '# Repofix report',
+        '',
+        `${report.totalFiles} files checked, ${report.totalIssues} issues found, ${report.fixedIssues} fixed.`,
+        '',
+        '| Directory | Files | Issues |',
+        '| --- | --- | --- |',
+        ...report.directories.map(
+            (dir) => `| ${toUri(relative(process.cwd(), dir.path)) || '.'} | ${dir.totalFiles} | ${dir.totalIssues} |`,
+        ),
+    ];
+    if (issues.length) {
+        lines.push(
+            '',
+            '## Open issues',
+            '',
+            '| Severity | Location | Rule | Issue | Suggestion |',
+            '| --- | --- | --- | --- | --- |',
+        );
+        for (const issue of issues) {
+            lines.push(
+                `| ${issue.severity} | \`${toUri(issue.file)}:${issue.line}\` | ${
+                    issue.rule || 'unresolved'
+                } | ${escapeCell(issue.issue)} | ${escapeCell(issue.suggestion || '')} |`,
+            );
+        }
+    }
+    return lines.join('\n') + '\n';
+};
+
+const REPORTERS: { [format: string]: Reporter } = {
+    json: (report) => JSON.stringify(report, null, 2),
+    sarif: formatSarif,
+    junit: formatJunit,
+    github: formatGithub,
+    markdown: formatMarkdown,
+};
+
+// Handles `--format <name>[=<file>]`; without a file the report goes to stdout
+function writeFormattedReports(report: MonorepoReport) {
+    for (const format of runOptions.formats) {
+        const [name, outputPath] = format.split('=');
+        const reporter = REPORTERS[name];
+        if (!reporter) {
+            logger.log(chalk.red(`Unknown report format "${name}". Available: ${Object.keys(REPORTERS).join(', ')}`));
+            process.exit(1);
+        }
+        const output = reporter(report);
+        if (outputPath) {
+            writeFileSync(outputPath, output);
+            logger.log(chalk.green(`${name} report written to ${outputPath}`));
+        } else {
+            logger.log(output);
+        }
+    }
+}
+
+// Resolved specifiers of every checked file, keyed by absolute path
+type ModuleGraph = Map<string, CachedSpecifier[]>;
+
+interface GraphEdge {
+    from: string;
+    to: string;
+    specifier: string;
+    line: number;
+    kind: ModuleSpecifierKind;
+    typeOnly: boolean;
+}
+
+function toGraphPath(filePath: string): string {
+    return toUri(relative(process.cwd(), filePath));
+}
+
+// Edges between source files; package imports and mocks are left out
+function getGraphEdges(graph: ModuleGraph): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const [filePath, specifiers] of graph) {
+        for (const { specifier, kind, line, resolved, typeOnly } of specifiers) {
+            if (!resolved || kind === 'mock' || resolved.includes('/node_modules/')) continue;
+            const from = toGraphPath(filePath);
+            edges.push({ from, to: toGraphPath(resolved), specifier, line, kind, typeOnly: !!typeOnly });
+        }
+    }
+    return edges;
+}
+
+// Type-only and dynamic imports are not evaluated when the module loads, so they cannot cause
+// the half-initialised `undefined` values that runtime cycles do
+function isRuntimeEdge(edge: GraphEdge): boolean {
+    return !edge.typeOnly && edge.kind !== 'dynamic-import';
+}
+
+// Finds the strongly connected components (Tarjan) and returns the shortest cycle through each
+function findCycles(edges: GraphEdge[]): GraphEdge[][] {
+    const outgoing = new Map<string, GraphEdge[]>();
+    for (const edge of edges.filter(isRuntimeEdge)) {
+        outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+    }
+
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    const connect = (node: string) => {
+        indexes.set(node, indexes.size);
+        lowLinks.set(node, indexes.get(node)!);
+        stack.push(node);
+        onStack.add(node);
+        for (const { to } of outgoing.get(node) || []) {
+            if (!indexes.has(to)) {
+                connect(to);
+                lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(to)!));
+            } else if (onStack.has(to)) {
+                lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(to)!));
+            }
+        }
+        if (lowLinks.get(node) === indexes.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+            components.push(component);
+        }
+    };
+    for (const node of [...outgoing.keys()].sort()) {
+        if (!indexes.has(node)) connect(node);
+    }
+
+    const cycles: GraphEdge[][] = [];
+    for (const component of components) {
+        const members = new Set(component);
+        const start = [...component].sort()[0];
+        // Breadth-first search from the start back to itself, staying inside the component
+        const previous = new Map<string, GraphEdge>();
+        const queue = [start];
+        let closing: GraphEdge | undefined;
+        while (queue.length && !closing) {
+            const node = queue.shift()!;
+            for (const edge of outgoing.get(node) || []) {
+                if (!members.has(edge.to)) continue;
+                if (edge.to === start) {
+                    closing = edge;
+                    break;
+                }
+                if (!previous.has(edge.to)) {
+                    previous.set(edge.to, edge);
+                    queue.push(edge.to);
+                }
+            }
+        }
+        if (!closing) continue;
+        const cycle = [closing];
+        while (cycle[0].from !== start) cycle.unshift(previous.get(cycle[0].from)!);
+        cycles.push(cycle);
+    }
+    return cycles;
+}
+
+function findLayerViolations(edges: GraphEdge[]): ImportIssue[] {
+    const issues: ImportIssue[] = [];
+    for (const edge of edges) {
+        const rule = (config.layers || []).find(
+            (layer) =>
+                minimatch(edge.from, layer.from) &&
+                layer.disallow.some((pattern) => minimatch(edge.to, pattern)) &&
+                !layer.allow?.some((pattern) => minimatch(edge.to, pattern)),
+        );
+        if (!rule) continue;
+        issues.push({
+            file: edge.from,
+            line: edge.line,
+            importPath: edge.specifier,
+            rule: 'layer-violation',
+            issue: `'${edge.from}' may not import '${edge.to}'${rule.description ? ` (${rule.description})` : ''}`,
+            suggestion: `Layer rule: ${rule.from} must not import ${rule.disallow.join(', ')}`,
+        });
+    }
+    return issues;
+}
+
+// Reports import cycles and layer rule violations across all checked directories. With
+// `affectedFiles`, only those that include one of these files are reported.
+function checkModuleGraph(graph: ModuleGraph, affectedFiles?: Set<string>): ImportIssue[] {
+    const affected = affectedFiles && new Set([...affectedFiles].map(toGraphPath));
+    const involvesAffected = (paths: string[]) => !affected || paths.some((path) => affected.has(path));
+    const edges = getGraphEdges(graph);
+    const cycles = findCycles(edges).filter((cycle) => involvesAffected(cycle.map((edge) => edge.from)));
+    const issues: ImportIssue[] = cycles.map((cycle) => ({
+        file: cycle[0].from,
+        line: cycle[0].line,
+        importPath: cycle[0].specifier,
+        rule: 'cycle',
+        issue: `Import cycle: ${[...cycle.map((edge) => edge.from), cycle[0].from].join(' -> ')}`,
+        suggestion: `Break one of: ${cycle
+            .map((edge) => `${edge.from}:${edge.line} imports '${edge.specifier}'`)
+            .join(', ')}`,
+    }));
+    issues.push(...findLayerViolations(edges.filter((edge) => involvesAffected([edge.from, edge.to]))));
+    assignSeverities(issues);
+
+    logger.log(chalk.blue('\nImport graph'));
+    logger.log(
+        chalk.cyan(
+            `${graph.size} modules, ${edges.length} imports, ${cycles.length} cycle(s), ` +
+                `${issues.length - cycles.length} layer violation(s)`,
+        ),
+    );
+    for (const issue of issues) {
+        logger.log(chalk.yellow(`  ${issue.file}:${issue.line} ${issue.issue}`));
+    }
+    return issues;
+}
+
+function formatGraph(graph: ModuleGraph, format: string): string {
+    const edges = getGraphEdges(graph);
+    const cycles = findCycles(edges);
+    const cycleEdges = new Set(cycles.flat());
+    const nodes = [...new Set([...[...graph.keys()].map(toGraphPath), ...edges.map((edge) => edge.to)])].sort();
+    if (format === 'json') {
+        return JSON.stringify({ nodes, edges, cycles: cycles.map((cycle) => cycle.map((edge) => edge.from)) }, null, 2);
+    }
+
+    // DOT and Mermaid draw one arrow per pair of files
+    const links = new Map<string, { from: string; to: string; runtime: boolean; cycle: boolean }>();
+    for (const edge of edges) {
+        const key = `${edge.from}\0${edge.to}`;
+        const link = links.get(key) || { from: edge.from, to: edge.to, runtime: false, cycle: false };
+        link.runtime ||= isRuntimeEdge(edge);
+        link.cycle ||= cycleEdges.has(edge);
+        links.set(key, link);
+    }
+    if (format === 'dot') {
+        const lines = ['digraph imports {', '  rankdir=LR;', '  node [shape=box];'];
+        lines.push(...nodes.map((node) => `  ${JSON.stringify(node)};`));
+        for (const link of links.values()) {
+            const attributes = [link.cycle && 'color=red', !link.runtime && 'style=dashed'].filter(Boolean);
+            const suffix = attributes.length ? ` [${attributes.join(', ')}]` : '';
+            lines.push(`  ${JSON.stringify(link.from)} -> ${JSON.stringify(link.to)}${suffix};`);
+        }
+        return [...lines, '}', ''].join('\n');
+    }
+    const ids = new Map(nodes.map((node, index) => [node, `n${index}`]));
+    const lines = ['graph LR', ...nodes.map((node) => `  ${ids.get(node)}["${node}"]`)];
+    const cycleLinks: number[] = [];
+    [...links.values()].forEach((link, index) => {
+        lines.push(`  ${ids.get(link.from)} ${link.runtime ? '-->' : '-.->'} ${ids.get(link.to)}`);
+        if (link.cycle) cycleLinks.push(index);
+    });
+    if (cycleLinks.length) lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:red`);
+    return lines.join('\n') + '\n';
+}
+
+// Handles `--graph <json|dot|mermaid>[=<file>]`; without a file the graph goes to stdout
+function writeGraphExports(graph: ModuleGraph) {
+    for (const value of runOptions.graphs) {
+        const [format, outputPath] = value.split('=');
+        if (!['json', 'dot', 'mermaid'].includes(format)) {
+            logger.log(chalk.red(`Unknown graph format "${format}". Available: json, dot, mermaid`));
+            process.exit(1);
+        }
+        const output = formatGraph(graph, format);
+        if (outputPath) {
+            writeFileSync(outputPath, output);
+            logger.log(chalk.green(`${format} import graph written to ${outputPath}`));
+        } else {
+            logger.log(output);
+        }
+    }
+}
+
+interface WatchedDirectory {
+    project: Project;
+    context: CheckContext;
+    issuesByFile: Map<string, ImportIssue[]>;
+}
+
+function printFileIssues(filePath: string, issues: ImportIssue[]) {
+    const relativeFilePath = relative(process.cwd(), filePath);
+    const open = issues.filter((issue) => !issue.fixed && getSeverity(issue) !== 'off');
+    if (!open.length) {
+        logger.log(chalk.green(`  ${relativeFilePath}: no issues`));
+        return;
+    }
+    for (const issue of open) {
+        const severity = getSeverity(issue);
+        const color = severity === 'error' ? chalk.red : severity === 'warning' ? chalk.yellow : chalk.gray;
+        logger.log(
+            color(`  ${severity}: ${relativeFilePath}:${issue.line}:${issue.column} ${issue.issue} [${issue.rule}]`),
+        );
+        if (issue.suggestion) logger.log(chalk.gray(`    ${issue.suggestion}`));
+    }
+}
+
+function printWatchSummary(watched: WatchedDirectory[]) {
+    const issues = watched.flatMap((state) => [...state.issuesByFile.values()].flat());
+    const open = issues.filter((issue) => !issue.fixed && getSeverity(issue) !== 'off');
+    const files = new Set(open.map((issue) => issue.file));
+    logger.log(chalk.cyan(`\n${open.length} open issue(s) in ${files.size} file(s). Watching for changes...`));
+}
+
+// Re-reads changed files into the loaded Projects, then re-checks them and every file importing them
+async function recheckChangedFiles(watched: WatchedDirectory[], changedPaths: string[]) {
+    const changed = new Set<string>();
+    for (const state of watched) {
+        const dirPath = toUri(resolve(state.context.dir.path)) + '/';
+        for (const filePath of changedPaths) {
+            const sourceFile = state.project.getSourceFile(filePath);
+            if (sourceFile) {
+                const result = sourceFile.refreshFromFileSystemSync();
+                // Saving a fix fires another event for text the Project already has
+                if (result === FileSystemRefreshResult.NoChange) continue;
+                if (result === FileSystemRefreshResult.Deleted) {
+                    state.issuesByFile.delete(filePath);
+                    logger.log(chalk.gray(`  ${relative(process.cwd(), filePath)}: removed`));
+                }
+            } else if (filePath.startsWith(dirPath) && existsSync(filePath)) {
+                state.project.addSourceFileAtPath(filePath);
+            } else {
+                continue;
+            }
+            // Added and removed files change resolution, edited exports change the did-you-mean index
+            moduleResolutionCaches.delete(state.project);
+            moduleIndexes.delete(state.project);
+            changed.add(filePath);
+        }
+    }
+    if (!changed.size) return;
+
+    for (const state of watched) {
+        const affected = getDirectoryFiles(state.project, state.context.dir).filter(
+            (file) => changed.has(file.getFilePath()) || importsChangedFile(getSpecifierRecords(file), changed),
+        );
+        for (const file of affected) {
+            const { issues } = await checkFile(file, state.context);
+            state.issuesByFile.set(file.getFilePath(), issues);
+            printFileIssues(file.getFilePath(), issues);
+        }
+    }
+    printWatchSummary(watched);
+}
+
+// fs.watch only supports `recursive` on Linux from Node 19.1, so each directory gets its own
+// watcher. Directories created while watching are added when their creation is reported.
+function watchTree(root: string, onChange: (filePath: string) => void): { close(): void } {
+    const watchers = new Map<string, FSWatcher>();
+    const addTree = (dirPath: string) => {
+        if (watchers.has(dirPath) || basename(dirPath) === 'node_modules') return;
+        const watcher = watch(dirPath, (_event, filename) => {
+            if (!filename) return;
+            const changedPath = join(dirPath, filename);
+            if (existsSync(changedPath) && statSync(changedPath).isDirectory()) {
+                // A directory moved in brings its files along
+                addTree(changedPath);
+                listSourceFiles(changedPath).forEach(onChange);
+            } else {
+                onChange(changedPath);
+            }
+        });
+        // Deleted directories end their watcher with an error on some platforms
+        watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(dirPath);
+        });
+        watchers.set(dirPath, watcher);
+        for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+            if (entry.isDirectory()) addTree(join(dirPath, entry.name));
+        }
+    };
+    addTree(resolve(root));
+    return { close: () => watchers.forEach((watcher) => watcher.close()) };
+}
+
+// Loads a Project per directory, checks everything once and starts the file watchers.
+// Returns a function that closes the watchers.
+async function startWatching(onReload: (reason: string) => void): Promise<() => void> {
+    const communitySolutions = await loadCommunitySolutions();
+    const workspacePackages = scanWorkspaces(process.cwd());
+    const watched: WatchedDirectory[] = [];
+    for (const dir of config.directories) {
+        const project = new Project({ tsConfigFilePath: dir.tsconfig });
+        const resolver = describeResolver(project.getCompilerOptions());
+        const context: CheckContext = { dir, resolver, communitySolutions, workspacePackages, patches: [] };
+        const state: WatchedDirectory = { project, context, issuesByFile: new Map() };
+        for (const file of getDirectoryFiles(project, dir)) {
+            state.issuesByFile.set(file.getFilePath(), (await checkFile(file, context)).issues);
+        }
+        watched.push(state);
+    }
+    logger.log(chalk.blue('\nCurrent issues'));
+    for (const state of watched) {
+        for (const [filePath, issues] of state.issuesByFile) {
+            if (issues.some((issue) => !issue.fixed)) printFileIssues(filePath, issues);
+        }
+    }
+    printWatchSummary(watched);
+
+    // Editors often write a file several times per save, so changes are batched
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+    const watchers: Array<{ close(): void }> = config.directories.map((dir) =>
+        watchTree(dir.path, (filePath) => {
+            if (!SOURCE_FILE_PATTERN.test(filePath)) return;
+            pending.add(toUri(filePath));
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                const changedPaths = [...pending];
+                pending.clear();
+                running = running.then(() => recheckChangedFiles(watched, changedPaths));
+            }, 100);
+        }),
+    );
+    for (const tsconfigPath of new Set(config.directories.map((dir) => dir.tsconfig))) {
+        watchers.push(watch(tsconfigPath, () => onReload(relative(process.cwd(), tsconfigPath))));
+    }
+    return () => {
+        clearTimeout(timer);
+        watchers.forEach((watcher) => watcher.close());
+    };
+}
+
+async function watchDirectories() {
+    let reloadTimer: NodeJS.Timeout | undefined;
+    let stop: () => void = () => {};
+    const reload = (reason: string) => {
+        clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(async () => {
+            logger.log(chalk.blue(`\n${reason} changed, reloading...`));
+            try {
+                const nextConfig = loadConfig();
+                stop();
+                config = nextConfig;
+                stop = await startWatching(reload);
+            } catch (error) {
+                logger.log(chalk.red(`Failed to reload: ${error}. Keeping the previous setup.`));
+            }
+        }, 100);
+    };
+    watch(CONFIG_PATH, () => reload(CONFIG_PATH));
+    stop = await startWatching(reload);
+    logger.log(chalk.gray('Press Ctrl+C to stop.'));
+}
+
+// npm package name of a bare specifier, keeping the scope of scoped packages. Null for relative
+// paths and Node builtins.
+function getPackageName(specifier: string): string | null {
+    if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('node:')) return null;
+    const parts = specifier.split('/');
+    const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+    return builtinModules.includes(name) ? null : name;
+}
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+];
+
+// Looks for a `packageManager` field or a lockfile from the directory up to the filesystem root
+function detectPackageManager(dir: DirectoryConfig): PackageManager {
+    for (let current = resolve(dir.path); ; current = dirname(current)) {
+        const packageJson = join(current, 'package.json');
+        if (existsSync(packageJson)) {
+            const { packageManager } = JSON.parse(readFileSync(packageJson, 'utf-8'));
+            const name = typeof packageManager === 'string' ? packageManager.split('@')[0] : undefined;
+            if (name && ['npm', 'yarn', 'pnpm', 'bun'].includes(name)) return name as PackageManager;
+        }
+        const lockfile = LOCKFILES.find(([file]) => existsSync(join(current, file)));
+        if (lockfile) return lockfile[1];
+        if (current === dirname(current)) return 'npm';
+    }
+}
+
+function getInstallCommand(dir: DirectoryConfig, packageName: string, dev = false): string {
+    const manager = detectPackageManager(dir);
+    const command = manager === 'npm' ? 'npm install' : `${manager} add`;
+    return `${command}${dev ? (manager === 'bun' ? ' -d' : ' -D') : ''} ${packageName}`;
+}
+
+// `@types/foo` for `foo`, `@types/scope__name` for `@scope/name`
+function getTypesPackageName(packageName: string): string {
+    return `@types/${packageName.replace(/^@/, '').replace('/', '__')}`;
+}
+
+// Package managers keep dependency lists sorted by name
+function sortKeys(object: { [key: string]: string }): { [key: string]: string } {
+    return Object.fromEntries(Object.entries(object).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function findManifestLine(text: string, packageName: string): number {
+    const index = text.indexOf(JSON.stringify(packageName) + ':');
+    return index === -1 ? 1 : text.slice(0, index).split('\n').length;
+}
+
+// Compares the packages a directory's files import with its package.json. With --fix, adds
+// undeclared packages that are installed, removes unused ones and moves test-only ones to devDependencies.
+// Packages imported by source files next to the package.json but outside the directory, e.g. build
+// scripts or tool configs. A cheap text scan, since these files are not part of the project.
+function getPackagesUsedOutside(dir: DirectoryConfig, packageJson: string): Set<string> {
+    const specifierPattern = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g;
+    const names = new Set<string>();
+    for (const filePath of listSourceFiles(dirname(packageJson))) {
+        if (isInsideDirectory(filePath, dir.path)) continue;
+        for (const [, specifier] of readFileSync(filePath, 'utf-8').matchAll(specifierPattern)) {
+            const name = getPackageName(specifier);
+            if (name) names.add(name);
+        }
+    }
+    return names;
+}
+
+function auditDependencies(
+    dir: DirectoryConfig,
+    fileList: string[],
+    graph: ModuleGraph,
+    workspacePackages: WorkspacePackage[],
+    patches: string[],
+): ImportIssue[] {
+    const packageJson = findPackageJson(dir);
+    if (!packageJson) return [];
+    const originalText = readFileSync(packageJson, 'utf-8');
+    const manifest = JSON.parse(originalText);
+    const dependencies: { [name: string]: string } = manifest.dependencies || {};
+    const devDependencies: { [name: string]: string } = manifest.devDependencies || {};
+    const declared = new Set([
+        ...Object.keys(dependencies),
+        ...Object.keys(devDependencies),
+        ...Object.keys(manifest.peerDependencies || {}),
+        ...Object.keys(manifest.optionalDependencies || {}),
+    ]);
+    const aliasKeys = Object.keys(getDirectoryAliases(dir)).map((alias) => alias.replace(/\/\*$/, ''));
+    const workspaceNames = new Set(workspacePackages.map((pkg) => pkg.name));
+
+    // Every package import, and whether it comes from production code
+    const usages = new Map<
+        string,
+        Array<{ file: string; line: number; specifier: string; typeOnly: boolean; test: boolean }>
+    >();
+    for (const relativePath of fileList) {
+        const filePath = toUri(resolve(relativePath));
+        for (const { specifier, kind, line, resolved, typeOnly } of graph.get(filePath) || []) {
+            const name = getPackageName(specifier);
+            if (!name || name === manifest.name) continue;
+            if (aliasKeys.some((alias) => specifier === alias || specifier.startsWith(alias + '/'))) continue;
+            // baseUrl imports resolve to local files; workspace packages may resolve through their real path
+            if (resolved && !resolved.includes('/node_modules/') && !workspaceNames.has(name)) continue;
+            const test = kind === 'mock' || TEST_FILE_PATTERN.test(filePath);
+            usages.set(name, [
+                ...(usages.get(name) || []),
+                { file: relativePath, line, specifier, typeOnly: !!typeOnly, test },
+            ]);
+        }
+    }
+
+    const relativeManifest = relative(process.cwd(), packageJson);
+    const issues: ImportIssue[] = [];
+    // Edits of the parsed manifest that fix each issue, applied with --fix
+    const manifestEdits = new Map<ImportIssue, () => void>();
+    for (const [name, uses] of usages) {
+        const typesOnly = uses.every((use) => use.typeOnly);
+        if (declared.has(name) || (typesOnly && declared.has(getTypesPackageName(name)))) continue;
+        if (Object.keys(config.specialCases).some((key) => name === key || key.startsWith(name + '/'))) continue;
+        const dev = uses.every((use) => use.test);
+        const installed = join(dirname(packageJson), 'node_modules', name, 'package.json');
+        const version = existsSync(installed) ? JSON.parse(readFileSync(installed, 'utf-8')).version : undefined;
+        const field = dev ? 'devDependencies' : 'dependencies';
+        const issue: ImportIssue = {
+            file: uses[0].file,
+            line: uses[0].line,
+            importPath: name,
+            rule: 'undeclared-dependency',
+            issue: `Package '${name}' is imported in ${uses.length} place(s) but not declared in ${relativeManifest}`,
+            suggestion: version
+                ? `Add "${name}": "^${version}" to ${field}`
+                : `Run: ${getInstallCommand(dir, name, dev)}`,
+        };
+        // Without an installed version there is nothing sensible to write, so only the install hint is given
+        if (version)
+            manifestEdits.set(issue, () => (manifest[field] = sortKeys({ ...manifest[field], [name]: `^${version}` })));
+        issues.push(issue);
+    }
+    const ignored = config.ignoredDependencies || [];
+    const usedOutside = getPackagesUsedOutside(dir, packageJson);
+    for (const name of Object.keys(dependencies)) {
+        if (ignored.includes(name) || usedOutside.has(name)) continue;
+        const uses = usages.get(name) || [];
+        const typedPackage = name.startsWith('@types/')
+            ? [...usages.keys()].find((used) => getTypesPackageName(used) === name)
+            : undefined;
+        if (!uses.length && !typedPackage) {
+            const issue: ImportIssue = {
+                file: relativeManifest,
+                line: findManifestLine(originalText, name),
+                importPath: name,
+                rule: 'unused-dependency',
+                issue: `Dependency '${name}' is never imported`,
+                suggestion: `Remove "${name}" from dependencies`,
+            };
+            manifestEdits.set(issue, () => delete manifest.dependencies[name]);
+            issues.push(issue);
+        } else if (uses.length && uses.every((use) => use.test)) {
+            const issue: ImportIssue = {
+                file: relativeManifest,
+                line: findManifestLine(originalText, name),
+                importPath: name,
+                rule: 'test-only-dependency',
+                issue: `Dependency '${name}' is only imported by tests`,
+                suggestion: `Move "${name}" to devDependencies`,
+            };
+            manifestEdits.set(issue, () => {
+                manifest.devDependencies = sortKeys({
+                    ...manifest.devDependencies,
+                    [name]: manifest.dependencies[name],
+                });
+                delete manifest.dependencies[name];
+            });
+            issues.push(issue);
+        }
+    }
+    if (!issues.length) return issues;
+
+    logger.log(chalk.blue(`\nDependency audit for ${relativeManifest}`));
+    // Dependencies are also used by scripts and tooling that imports cannot show, so package.json is
+    // only edited with --fix-dependencies or when each edit is confirmed with --fix --interactive
+    const canEditManifest = runOptions.fixDependencies;
+    let modified = false;
+    for (const issue of issues) {
+        logger.log(chalk.yellow(`  ${issue.issue} (${issue.suggestion})`));
+        const edit = manifestEdits.get(issue);
+        if (!canEditManifest || !edit) continue;
+        const shouldFix = confirmFix(issue);
+        if (!shouldFix) {
+            issue.userChoice = 'Skipped';
+            continue;
+        }
+        edit();
+        issue.fixed = true;
+        modified = true;
+        logger.log(chalk.green(`  Fixed: ${issue.suggestion}`));
+    }
+    if (!modified) return issues;
+
+    const indent = originalText.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+    const updatedText = JSON.stringify(manifest, null, indent) + '\n';
+    if (runOptions.dryRun) {
+        const patch = createFilePatch(relativeManifest, originalText, updatedText);
+        patches.push(patch);
+        printPatch(patch);
+    } else {
+        writeFileSync(packageJson, updatedText);
+        logger.log(chalk.green(`  Saved changes to ${relativeManifest}`));
+    }
+    return issues;
+}
+
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[mc]?[jt]sx?$)|(\/__tests__\/)/;
+const TOOL_CONFIG_PATTERN = /\.config\.[mc]?[jt]s$/;
+const NEXT_APP_FILE_PATTERN =
+    /\/app\/(.+\/)?(page|layout|template|loading|error|global-error|not-found|default|route|opengraph-image|twitter-image|icon|apple-icon|sitemap|robots|manifest)\.[jt]sx?$/;
+const NEXT_ROOT_FILE_PATTERN = /\/(middleware|instrumentation)\.[jt]s$/;
+
+function findPackageJson(dir: DirectoryConfig): string | undefined {
+    if (dir.packageJson) return dir.packageJson;
+    for (let current = resolve(dir.path); current !== dirname(current); current = dirname(current)) {
+        if (existsSync(join(current, 'package.json'))) return join(current, 'package.json');
+        if (current === process.cwd()) break;
+    }
+    return undefined;
+}
+
+// Module paths (without extension) that a package exposes through main/module/types/bin/exports.
+// Build output paths are mapped back to sources through the tsconfig's outDir and rootDir.
+function getPackageEntryModules(dir: DirectoryConfig): string[] {
+    const packageJson = findPackageJson(dir);
+    if (!packageJson) return [];
+    const manifest = JSON.parse(readFileSync(packageJson, 'utf-8'));
+    const targets = [
+        ...collectExportTargets([manifest.main, manifest.module, manifest.types, manifest.typings, manifest.source]),
+        ...collectExportTargets(manifest.bin),
+        ...collectExportTargets(manifest.exports),
+    ];
+    const options = loadTsconfig(dir.tsconfig)?.options || {};
+    const outDir = options.outDir && toUri(options.outDir);
+    const rootDir = toUri(options.rootDir || dirname(dir.tsconfig));
+    return targets.flatMap((target) => {
+        const modulePath = toUri(stripExtension(resolve(dirname(packageJson), target)));
+        return outDir && modulePath.startsWith(outDir + '/')
+            ? [modulePath, rootDir + modulePath.slice(outDir.length)]
+            : [modulePath];
+    });
+}
+
+// Next.js only routes the `pages/` folder at the root of the project or of its `src/`
+function isNextPagesFile(filePath: string): boolean {
+    const dir = findOwningDirectory(filePath);
+    if (!dir) return false;
+    const relativePath = toUri(relative(resolve(dir.path), filePath));
+    return relativePath.startsWith('pages/') || relativePath.startsWith('src/pages/');
+}
+
+function isEntryPoint(filePath: string, entryModules: Set<string>): boolean {
+    const relativePath = toGraphPath(filePath);
+    const modulePath = stripExtension(filePath);
+    return (
+        entryModules.has(modulePath) ||
+        (basename(modulePath) === 'index' && entryModules.has(dirname(modulePath))) ||
+        TEST_FILE_PATTERN.test(filePath) ||
+        TOOL_CONFIG_PATTERN.test(filePath) ||
+        NEXT_APP_FILE_PATTERN.test(filePath) ||
+        NEXT_ROOT_FILE_PATTERN.test(filePath) ||
+        isNextPagesFile(filePath) ||
+        (config.entries || []).some((pattern) => minimatch(relativePath, pattern))
+    );
+}
+
+// Export names an import site uses from its target, or '*' when it may use any of them
+function getUsedExports(site: ModuleSpecifierSite): string[] | '*' {
+    if (site.kind === 'mock') return [];
+    if (site.kind === 'require' || site.kind === 'dynamic-import') return '*';
+    if (site.importDecl) {
+        if (site.importDecl.getNamespaceImport()) return '*';
+        return getImportedNames(site);
+    }
+    const exportDecl = site.literal.getParentIfKind(SyntaxKind.ExportDeclaration);
+    if (!exportDecl || !exportDecl.hasNamedExports()) return '*';
+    return exportDecl.getNamedExports().map((specifier) => specifier.getName());
+}
+
+// Lists source files no entry point reaches and exports nothing imports; `--fix` deletes the files
+async function findOrphans() {
+    const files = new Map<string, SourceFile>();
+    const summaries: DirectorySummary[] = [];
+    const entryModules = new Set<string>();
+    for (const dir of config.directories) {
+        const project = new Project({ tsConfigFilePath: dir.tsconfig });
+        const dirFiles = project.getSourceFiles(`${dir.path}/**/*.{ts,tsx,js,jsx}`);
+        for (const file of dirFiles) {
+            if (!files.has(file.getFilePath()) && !file.isDeclarationFile()) files.set(file.getFilePath(), file);
+        }
+        getPackageEntryModules(dir).forEach((modulePath) => entryModules.add(modulePath));
+        summaries.push({ path: dir.path, report: dir.report, totalFiles: dirFiles.length, totalIssues: 0 });
+    }
+
+    const imports = new Map<string, string[]>();
+    const usedExports = new Map<string, Set<string>>();
+    for (const [filePath, file] of files) {
+        const targets: string[] = [];
+        for (const site of collectModuleSpecifiers(file)) {
+            const resolved = resolveModuleFile(site.specifier, file, site.kind);
+            if (!resolved || !files.has(toUri(resolved))) continue;
+            targets.push(toUri(resolved));
+            const used = usedExports.get(toUri(resolved)) || new Set<string>();
+            const names = getUsedExports(site);
+            (names === '*' ? ['*'] : names).forEach((name) => used.add(name));
+            usedExports.set(toUri(resolved), used);
+        }
+        imports.set(filePath, targets);
+    }
+
+    const entries = new Set([...files.keys()].filter((filePath) => isEntryPoint(filePath, entryModules)));
+    const reachable = new Set(entries);
+    const queue = [...entries];
+    while (queue.length) {
+        for (const target of imports.get(queue.shift()!) || []) {
+            if (reachable.has(target)) continue;
+            reachable.add(target);
+            queue.push(target);
+        }
+    }
+    logger.log(chalk.cyan(`${files.size} modules, ${entries.size} entry points, ${reachable.size} reachable`));
+
+    const issues: ImportIssue[] = [];
+    for (const [filePath, file] of files) {
+        const relativeFilePath = relative(process.cwd(), filePath);
+        if (!reachable.has(filePath)) {
+            issues.push({
+                file: relativeFilePath,
+                line: 1,
+                importPath: toGraphPath(filePath),
+                rule: 'orphan-module',
+                issue: 'Module is not reachable from any entry point',
+                suggestion: `Delete ${relativeFilePath}`,
+            });
+            continue;
+        }
+        // An entry point's exports are its public API
+        const used = usedExports.get(filePath) || new Set<string>();
+        if (entries.has(filePath) || used.has('*')) continue;
+        for (const [name, declarations] of file.getExportedDeclarations()) {
+            if (used.has(name)) continue;
+            const declaration = declarations[0];
+            // Re-exports are reported where they are declared
+            if (declaration && declaration.getSourceFile() !== file) continue;
+            issues.push({
+                file: relativeFilePath,
+                line: declaration ? declaration.getStartLineNumber() : 1,
+                importPath: toGraphPath(filePath),
+                rule: 'unused-export',
+                issue: `Export '${name}' is never imported`,
+                suggestion: 'Remove the export, or the declaration if nothing in the file uses it',
+            });
+        }
+    }
+    assignSeverities(issues);
+
+    for (const issue of issues) {
+        const color = issue.rule === 'orphan-module' ? chalk.yellow : chalk.gray;
+        logger.log(color(`  ${issue.file}:${issue.line} ${issue.issue} [${issue.rule}]`));
+    }
+    const orphans = issues.filter((issue) => issue.rule === 'orphan-module');
+    logger.log(
+        chalk.cyan(`\n${orphans.length} orphaned module(s), ${issues.length - orphans.length} unused export(s)`),
+    );
+
+    // Entry detection cannot see files used only by scripts, HTML or tool configs, so deleting
+    // needs --delete-orphans, and --interactive asks for each file
+    if (runOptions.deleteOrphans) {
+        for (const issue of orphans) {
+            const shouldFix = confirmFix(issue);
+            if (!shouldFix) {
+                issue.userChoice = 'Skipped';
+                continue;
+            }
+            issue.fixed = true;
+            if (runOptions.dryRun) {
+                logger.log(chalk.yellow(`  Would delete ${issue.file}`));
+            } else {
+                unlinkSync(issue.file);
+                logger.log(chalk.green(`  Deleted ${issue.file}`));
+            }
+        }
+    } else if (runOptions.autoFix && orphans.length) {
+        logger.log(
+            chalk.yellow('Orphaned files are never deleted by --fix alone. Pass --delete-orphans to delete them.'),
+        );
+    }
+
+    for (const summary of summaries) {
+        summary.totalIssues = issues.filter((issue) => isInsideDirectory(issue.file, summary.path)).length;
+    }
+    writeFormattedReports(buildMonorepoReport(summaries, issues));
+}
+
+function toRelativeSpecifier(importerPath: string, targetPath: string): string {
+    const relativePath = relative(dirname(importerPath), targetPath).replace(/\\/g, '/');
+    return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
+
+// Computes the specifier for a moved module while keeping the import's style:
+// aliased imports stay aliased (preferring the alias they used), relative ones stay relative
+function rewriteSpecifierForMove(importPath: string, importerPath: string, targetFile: string, aliases: AliasMap) {
+    const targetPath = toSpecifierPath(targetFile, importPath);
+    if (!importPath.startsWith('.')) {
+        const usedAlias = Object.keys(aliases)
+            .filter((alias) => importPath === alias || importPath.startsWith(`${alias}/`))
+            .sort((a, b) => b.length - a.length)[0];
+        const candidates = Object.keys(aliases).sort((a, b) => b.length - a.length);
+        for (const alias of usedAlias ? [usedAlias, ...candidates] : candidates) {
+            const aliasPath = convertToAliasPath(targetPath, alias, aliases);
+            if (aliasPath) return aliasPath;
+        }
+    }
+    return toRelativeSpecifier(importerPath, targetPath);
+}
+
+// Rewrites special-case keys and rename targets that point at a moved module
+function updateMovedSpecialCases(movedPath: (path: string) => string | null): number {
+    const aliasMaps = [config.aliases, ...config.directories.map((dir) => dir.aliases || {})];
+    const rewrite = (specifier: string): string | null => {
+        const aliases = aliasMaps.find((map) => Object.keys(map).some((a) => specifier.startsWith(`${a}/`)));
+        const alias = aliases && Object.keys(aliases).find((a) => specifier.startsWith(`${a}/`));
+        const oldPath = specifier.startsWith('.')
+            ? resolve(specifier)
+            : alias && resolve(aliases[alias].path, specifier.slice(alias.length + 1));
+        const newPath = oldPath && movedPath(oldPath);
+        return newPath
+            ? rewriteSpecifierForMove(specifier, resolve(CONFIG_PATH), newPath, aliases || config.aliases)
+            : null;
+    };
+
+    let updated = 0;
+    const specialCases: { [key: string]: SpecialCase } = {};
+    for (const [key, special] of Object.entries(config.specialCases)) {
+        const newKey = rewrite(key);
+        const newValue = special.value && special.action === 'rename' ? rewrite(special.value) : null;
+        if (newKey || newValue) updated++;
+        specialCases[newKey || key] = newValue ? { ...special, value: newValue } : special;
+    }
+    config.specialCases = specialCases;
+    return updated;
+}
+
+async function moveModule(from: string | undefined, to: string | undefined) {
+    if (!from || !to) {
+        logger.log(chalk.red('Usage: repofix move <from> <to>'));
+        process.exit(1);
+    }
+    const source = resolve(from);
+    let target = resolve(to);
+    if (!existsSync(source)) {
+        logger.log(chalk.red(`Cannot move ${from}: path does not exist`));
+        process.exit(1);
+    }
+    const isDirectory = statSync(source).isDirectory();
+    const intoDirectory = /[\\/]$/.test(to) || (existsSync(target) && statSync(target).isDirectory());
+    if (!isDirectory && intoDirectory) target = join(target, basename(source));
+    if (existsSync(target)) {
+        logger.log(chalk.red(`Cannot move ${from}: ${relative(process.cwd(), target)} already exists`));
+        process.exit(1);
+    }
+
+    // Maps a file (or extension-less module path) to where it lives after the move
+    const movedPath = (path: string): string | null => {
+        if (path === source || path === stripExtension(source))
+            return path === source ? target : stripExtension(target);
+        if (isDirectory && path.startsWith(source + sep)) return join(target, relative(source, path));
+        return null;
+    };
+
+    logger.log(chalk.blue(`Moving ${relative(process.cwd(), source)} → ${relative(process.cwd(), target)}`));
+    const processed = new Set<string>();
+    const patches: string[] = [];
+    let updatedImports = 0;
+
+    for (const dir of config.directories) {
+        const project = new Project({ tsConfigFilePath: dir.tsconfig });
+        for (const file of project.getSourceFiles(`${dir.path}/**/*.{ts,tsx,js,jsx}`)) {
+            const filePath = file.getFilePath();
+            if (processed.has(filePath)) continue;
+            processed.add(filePath);
+
+            const newFilePath = movedPath(filePath) ?? filePath;
+            const aliases = getDirectoryAliases(findOwningDirectory(filePath) ?? dir);
+            const relativeFilePath = relative(process.cwd(), filePath);
+            const originalText = file.getFullText();
+
+            for (const site of collectModuleSpecifiers(file)) {
+                const resolvedFile = resolveModuleFile(site.specifier, file, site.kind);
+                if (!resolvedFile) continue;
+                const newTarget = movedPath(resolvedFile);
+                // Only relative imports of a moved file change when their target stays put
+                if (!newTarget && (newFilePath === filePath || !site.specifier.startsWith('.'))) continue;
+
+                const newSpecifier = rewriteSpecifierForMove(
+                    site.specifier,
+                    newFilePath,
+                    newTarget ?? resolvedFile,
+                    aliases,
+                );
+                if (newSpecifier === site.specifier) continue;
+                site.literal.setLiteralValue(newSpecifier);
+                updatedImports++;
+                logger.log(chalk.green(`  ${relativeFilePath}:${site.line} '${site.specifier}' → '${newSpecifier}'`));
+            }
+
+            if (file.getFullText() !== originalText) {
+                if (runOptions.dryRun) {
+                    patches.push(createFilePatch(relativeFilePath, originalText, file.getFullText()));
+                } else {
+                    await file.save();
+                }
+            }
+        }
+    }
+
+    const updatedSpecialCases = updateMovedSpecialCases(movedPath);
+    if (runOptions.dryRun) {
+        patches.forEach(printPatch);
+        if (runOptions.patchPath) writeFileSync(runOptions.patchPath, patches.join(''));
+        logger.log(chalk.cyan(`\nDry run: would update ${updatedImports} import(s) and move the source`));
+        return;
+    }
+
+    mkdirSync(dirname(target), { recursive: true });
+    renameSync(source, target);
+    if (updatedSpecialCases) {
+        writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+        logger.log(chalk.green(`Updated ${updatedSpecialCases} special case(s) in ${CONFIG_PATH}`));
+    }
+    logger.log(chalk.green(`\nMoved ${from} → ${to} and updated ${updatedImports} import(s)`));
+}
+
+// Programmatic API. It prints and prompts nothing unless a logger or prompter is passed, writes no
+// reports, and stays offline. Runs share module state, so concurrent calls are queued.
+
+type Report = MonorepoReport;
+
+interface AnalyzeOptions {
+    // A config object or the path of a config file, defaults to ./repofix.config.json
+    config?: Config | string;
+    // Only check files changed in git (staged, or since `since`) and their importers
+    changed?: boolean;
+    since?: string;
+    // Read and update the analysis cache in .repofix/cache
+    cache?: boolean;
+    // Fetch remote solution sources instead of only using the bundled file and the cache
+    fetchSolutions?: boolean;
+    logger?: Logger;
+}
+
+interface FixOptions {
+    config?: Config | string;
+    // Leave files untouched and return the fixes as patches
+    dryRun?: boolean;
+    // Type-check fixed files and roll back fixes that break them, on by default
+    verify?: boolean;
+    logger?: Logger;
+    // Asked about every fix the filter accepts
+    prompter?: Prompter;
+    // Edit package.json for the dependency audit issues, and apply "did you mean" guesses for
+    // unresolved imports. Both default to whether a prompter confirms each fix.
+    fixDependencies?: boolean;
+    applyGuesses?: boolean;
+}
+
+interface FixResult extends Report {
+    patches: string[];
+}
+
+// Identifies an issue between analyze() and applyFixes() on unchanged files
+function getIssueKey(issue: ImportIssue): string {
+    return `${issue.file}:${getFixKey(issue)}`;
+}
+
+// Settles after the last queued run, which each new run waits for
+let runQueue: Promise<unknown> = Promise.resolve();
+
+// Runs `task` with the given settings and restores the previous ones afterwards. Runs are queued,
+// since they swap the module state that checks read.
+function withRunState<T>(
+    state: { config?: Config | string; options: Partial<RunOptions>; logger?: Logger; prompter?: Prompter },
+    task: () => Promise<T>,
+): Promise<T> {
+    const run = runQueue.then(async () => {
+        const previous = { runOptions, config, logger, prompter };
+        const runConfig = typeof state.config === 'object' ? validateConfig(state.config) : loadConfig(state.config);
+        runOptions = { ...DEFAULT_RUN_OPTIONS, writeReports: false, offline: true, useCache: false, ...state.options };
+        config = runConfig;
+        logger = state.logger ?? SILENT_LOGGER;
+        prompter = state.prompter ?? null;
+        try {
+            return await task();
+        } finally {
+            ({ runOptions, config, logger, prompter } = previous);
+        }
+    });
+    runQueue = run.catch(() => undefined);
+    return run;
+}
+
+async function analyze(options: AnalyzeOptions = {}): Promise<Report> {
+    const runState = {
+        config: options.config,
+        logger: options.logger,
+        options: {
+            changedOnly: !!options.changed,
+            since: options.since,
+            useCache: !!options.cache,
+            offline: !options.fetchSolutions,
+        },
+    };
+    return withRunState(runState, async () => {
+        const { directories, issues } = await runChecks();
+        return buildMonorepoReport(directories, issues);
+    });
+}
+
+// Applies the fixes for the report's open issues that `filter` accepts. Only the files with such
+// issues are touched, and they should not have changed since the report was made.
+async function applyFixes(
+    report: Report,
+    filter: (issue: ImportIssue) => boolean = () => true,
+    options: FixOptions = {},
+): Promise<FixResult> {
+    const selected = new Set(report.issues.filter((issue) => !issue.fixed && filter(issue)).map(getIssueKey));
+    const files = new Set(
+        report.issues.filter((issue) => selected.has(getIssueKey(issue))).map((issue) => resolve(issue.file)),
+    );
+    const runState = {
+        config: options.config,
+        logger: options.logger,
+        prompter: {
+            confirmFix: (issue: ImportIssue) =>
+                selected.has(getIssueKey(issue)) && (!options.prompter || options.prompter.confirmFix(issue)),
+        },
+        options: {
+            autoFix: true,
+            dryRun: !!options.dryRun,
+            verifyFixes: options.verify ?? true,
+            // Selecting an issue with the filter is not a confirmation, only the caller's prompter is
+            fixDependencies: options.fixDependencies ?? !!options.prompter,
+            applyGuesses: options.applyGuesses ?? !!options.prompter,
+        },
+    };
+    return withRunState(runState, async () => {
+        const { directories, issues, patches } = await runChecks(files);
+        return { ...buildMonorepoReport(directories, issues), patches };
+    });
+}
+
+export { loadConfig, analyze, applyFixes, getIssueKey };
+export type {
+    Report,
+    AnalyzeOptions,
+    FixOptions,
+    FixResult,
+    Logger,
+    Prompter,
+    ImportIssue,
+    IssueRule,
+    Severity,
+    ModuleSpecifierKind,
+    DirectorySummary,
+    Config,
+    DirectoryConfig,
+    AliasMap,
+    AliasConfig,
+    SpecialCase,
+    SpecialCaseConditions,
+    ImportMapping,
+    LayerRule,
+    StylePolicy,
+    ImportGroup,
+    CommunitySolution,
+};
+
+// The CLI: maps arguments onto run options and calls the same code as the API
+async function main() {
+    logger = CONSOLE_LOGGER;
+    const command = process.argv[2] && !process.argv[2].startsWith('-') ? process.argv[2] : undefined;
+    if (command && !COMMANDS.includes(command)) {
+        logger.log(chalk.red(`Unknown command "${command}". Available commands: ${COMMANDS.join(', ')}`));
+        process.exit(1);
+    }
+    runOptions = getCliRunOptions(command);
+    if (runOptions.failOn && !SEVERITY_ORDER.includes(runOptions.failOn)) {
+        logger.log(
+            chalk.red(`Invalid --fail-on "${runOptions.failOn}". Expected one of: ${SEVERITY_ORDER.join(', ')}`),
+        );
+        process.exit(1);
+    }
+    if (runOptions.autoFix && command !== 'watch' && process.argv.includes('--interactive')) {
+        prompter = { confirmFix: promptForFix };
+        // Each guess and package.json edit is confirmed, so both are offered
+        runOptions = { ...runOptions, applyGuesses: true, fixDependencies: true };
+    }
+    if (command === 'init') {
+        const nonInteractive = process.argv.includes('--yes') || !!getArgValue('--seed') || !process.stdin.isTTY;
+        config = nonInteractive ? await initializeConfigNonInteractive(readInitOptions()) : await initializeConfig();
+        return;
+    }
+    if (command === 'config') {
+        if (process.argv[3] !== 'reset') {
+            logger.log(chalk.red('Usage: repofix config reset'));
+            process.exit(1);
+        }
+        return resetConfig();
+    }
+
+    if (existsSync(CONFIG_PATH)) {
+        try {
+            config = loadConfig();
+        } catch (error: unknown) {
+            logger.log(chalk.red(error instanceof Error ? error.message : String(error)));
+            process.exit(1);
+        }
+    } else if (!command && process.stdin.isTTY) {
+        config = await initializeConfig();
+    } else {
+        // Prompting without a terminal would hang CI, so explain how to bootstrap instead
+        logger.log(chalk.red(`No config found at ${CONFIG_PATH}.`));
+        logger.log(chalk.white('Run "repofix init" to create one, or "repofix init --yes" without prompts.'));
+        process.exit(1);
+    }
+
+    if (command === 'move') return moveModule(process.argv[3], process.argv[4]);
+    if (command === 'watch') return watchDirectories();
+    if (command === 'orphans') return findOrphans();
+    return repocheck();
+}
+
+// Importing the module for its API must not start the CLI
+if (require.main === module) {
+    main().catch((err) => {
+        console.error(chalk.red('Error running repocheck:', err));
+        process.exit(1);
+    });
+}